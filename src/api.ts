@@ -0,0 +1,139 @@
+import { App, TFile } from "obsidian";
+import {
+  ConditionGroup,
+  FrontmatterChange,
+  FrontmatterValue,
+  OperationType,
+  ParsedTask,
+  TaskProperty,
+  TaskPropertyPluginSettings,
+  TypedValue,
+} from "./types";
+import { parseTasks } from "./taskParser";
+import { executeOperation, filterTasksByConditions } from "./operations";
+import { compileQueryFilter } from "./queryParser";
+import type { TaskPropertyProcessor } from "./processor";
+
+/**
+ * Version of the public API. It is increased when a method changes in a
+ * way that breaks callers; new methods don't change it.
+ */
+export const API_VERSION = 1;
+
+/**
+ * Workspace event fired after the plugin changed the frontmatter of a
+ * note, with the file and its changes:
+ *
+ * ```ts
+ * app.workspace.on("task-property-sync:updated", (file: TFile, changes: FrontmatterChange[]) => { ... });
+ * ```
+ */
+export const UPDATED_EVENT = "task-property-sync:updated";
+
+/**
+ * The public API, available to other plugins and scripts as
+ * `app.plugins.getPlugin("task-property-sync").api`.
+ */
+export interface TaskPropertySyncApi {
+  /** Version of the API (see `API_VERSION`) */
+  readonly version: number;
+
+  /**
+   * Parses the tasks of markdown text with the plugin's task format and
+   * status registry. `path` is stored on each task.
+   */
+  parseTasks(content: string, path?: string): ParsedTask[];
+
+  /**
+   * Runs an operation over the given tasks, after filtering them by a
+   * condition group or a text query (e.g. "not done"). A query with errors
+   * matches no tasks. Returns null when no task has a value.
+   */
+  runOperation(
+    tasks: ParsedTask[],
+    property: TaskProperty,
+    operation: OperationType,
+    filter?: ConditionGroup | string
+  ): TypedValue | null;
+
+  /**
+   * Evaluates all mappings for a note without writing anything, and
+   * returns the values they produce by frontmatter property. Returns null
+   * if the note doesn't exist or is excluded.
+   */
+  computeFile(path: string): Promise<Record<string, FrontmatterValue> | null>;
+
+  /**
+   * Processes a note and writes its frontmatter. Returns whether the
+   * frontmatter changed.
+   */
+  processFile(path: string): Promise<boolean>;
+}
+
+/**
+ * What the API needs from the plugin.
+ */
+export interface ApiHost {
+  app: App;
+  getSettings(): TaskPropertyPluginSettings;
+  getProcessor(): TaskPropertyProcessor;
+  /** Processes a file the way file changes are processed */
+  processFile(file: TFile): Promise<boolean>;
+}
+
+/**
+ * Creates the public API object of the plugin.
+ */
+export function createApi(host: ApiHost): TaskPropertySyncApi {
+  return {
+    version: API_VERSION,
+
+    parseTasks(content: string, path?: string): ParsedTask[] {
+      const settings = host.getSettings();
+      return parseTasks(content, {
+        format: settings.taskFormat,
+        statuses: settings.statuses,
+        path,
+      });
+    },
+
+    runOperation(
+      tasks: ParsedTask[],
+      property: TaskProperty,
+      operation: OperationType,
+      filter?: ConditionGroup | string
+    ): TypedValue | null {
+      const settings = host.getSettings();
+      const group = typeof filter === "string" ? compileQueryFilter(filter) : filter;
+      return executeOperation(
+        group === null ? [] : filterTasksByConditions(tasks, group, new Date(), settings.statuses),
+        property,
+        operation,
+        {
+          excludeCancelledFromPercentage: settings.excludeCancelledFromPercentage,
+          statuses: settings.statuses,
+        }
+      );
+    },
+
+    async computeFile(path: string): Promise<Record<string, FrontmatterValue> | null> {
+      const file = host.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) return null;
+      return host.getProcessor().computeResults(file);
+    },
+
+    async processFile(path: string): Promise<boolean> {
+      const file = host.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) return false;
+      return host.processFile(file);
+    },
+  };
+}
+
+/**
+ * Fires the `task-property-sync:updated` event for changes made to a file.
+ */
+export function triggerUpdated(app: App, file: TFile, changes: FrontmatterChange[]): void {
+  if (changes.length === 0) return;
+  app.workspace.trigger(UPDATED_EVENT, file, changes);
+}
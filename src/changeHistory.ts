@@ -0,0 +1,112 @@
+import { ChangeRun, FrontmatterChange } from "./types";
+import { generateId } from "./utils";
+
+/** How many runs are kept; older runs are dropped */
+const MAX_RUNS = 20;
+
+/** Automatic updates within this time (ms) are grouped into one run */
+const AUTOMATIC_RUN_WINDOW = 10 * 60 * 1000;
+
+/** Label of runs that group automatic updates */
+const AUTOMATIC_RUN_LABEL = "Automatic updates";
+
+/**
+ * History of the frontmatter changes made by the plugin, grouped into
+ * runs, newest first. Runs without changes are not kept.
+ */
+export class ChangeHistory {
+  private runs: ChangeRun[] = [];
+  private onChange: () => void;
+
+  /**
+   * @param runs - Runs loaded from plugin data
+   * @param onChange - Called whenever the history changes (to save it)
+   */
+  constructor(runs: ChangeRun[], onChange: () => void) {
+    this.runs = runs;
+    this.onChange = onChange;
+  }
+
+  /**
+   * Returns all runs, newest first.
+   */
+  getRuns(): ChangeRun[] {
+    return this.runs;
+  }
+
+  /**
+   * Creates a run. It is added to the history when its first change is recorded.
+   */
+  startRun(label: string): ChangeRun {
+    return { id: generateId(), label, timestamp: Date.now(), files: [] };
+  }
+
+  /**
+   * Returns the run that collects automatic updates: the newest run if it
+   * is a recent automatic run, otherwise a new one.
+   */
+  getAutomaticRun(): ChangeRun {
+    const latest = this.runs[0];
+    if (
+      latest &&
+      latest.label === AUTOMATIC_RUN_LABEL &&
+      Date.now() - latest.timestamp < AUTOMATIC_RUN_WINDOW
+    ) {
+      return latest;
+    }
+    return this.startRun(AUTOMATIC_RUN_LABEL);
+  }
+
+  /**
+   * Records the changes made to a file in a run. A key changed twice in
+   * the same run keeps its first old value.
+   */
+  record(run: ChangeRun, path: string, changes: FrontmatterChange[]): void {
+    if (changes.length === 0) return;
+
+    let fileRecord = run.files.find((f) => f.path === path);
+    if (!fileRecord) {
+      fileRecord = { path, changes: [] };
+      run.files.push(fileRecord);
+    }
+
+    for (const change of changes) {
+      const existing = fileRecord.changes.find((c) => c.key === change.key);
+      if (existing) {
+        existing.newValue = change.newValue;
+      } else {
+        fileRecord.changes.push({ ...change });
+      }
+    }
+
+    if (this.runs.indexOf(run) === -1) {
+      this.runs.unshift(run);
+      this.runs.splice(MAX_RUNS);
+    }
+    this.onChange();
+  }
+
+  /**
+   * Removes a run from the history.
+   */
+  remove(id: string): void {
+    this.runs = this.runs.filter((run) => run.id !== id);
+    this.onChange();
+  }
+
+  /**
+   * Updates the paths of a renamed file in all runs.
+   */
+  rename(oldPath: string, newPath: string): void {
+    let changed = false;
+    for (const run of this.runs) {
+      for (const fileRecord of run.files) {
+        if (fileRecord.path === oldPath) {
+          fileRecord.path = newPath;
+          changed = true;
+        }
+      }
+    }
+    if (changed) this.onChange();
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * Relative date expressions usable wherever a YYYY-MM-DD date is expected.
+ *
+ * Supported bases: today, tomorrow, yesterday, start/end of week,
+ * start/end of month, start/end of year. A base can be followed by an
+ * offset in days, weeks, months or years, e.g. "today+7d", "end of month-1w".
+ * Weeks start on Monday.
+ */
+const RELATIVE_DATE_REGEX =
+  /^(today|tomorrow|yesterday|(?:start|end) of (?:week|month|year))\s*(?:([+-])\s*(\d+)\s*([dwmy]))?$/;
+
+/**
+ * Resolves a relative date expression to a YYYY-MM-DD date.
+ * Returns null if the value is not a relative date expression.
+ */
+export function resolveRelativeDate(
+  expression: string,
+  now: Date = new Date()
+): string | null {
+  const match = expression.trim().toLowerCase().match(RELATIVE_DATE_REGEX);
+  if (!match) return null;
+
+  const date = resolveBase(match[1], now);
+  if (match[2]) {
+    const amount = parseInt(match[3], 10) * (match[2] === "-" ? -1 : 1);
+    addToDate(date, amount, match[4]);
+    // Keep "end of month+1m" at the end of the target month, not its 28th
+    if (match[1] === "end of month" && (match[4] === "m" || match[4] === "y")) {
+      date.setMonth(date.getMonth() + 1, 0);
+    }
+  }
+
+  return formatDate(date);
+}
+
+/**
+ * Whether a value is a relative date expression.
+ */
+export function isRelativeDate(expression: string): boolean {
+  return RELATIVE_DATE_REGEX.test(expression.trim().toLowerCase());
+}
+
+/**
+ * Resolves a date condition value: relative expressions are resolved against
+ * `now`, anything else is returned unchanged.
+ */
+export function resolveDateValue(value: string, now: Date = new Date()): string {
+  return resolveRelativeDate(value, now) ?? value;
+}
+
+/**
+ * Formats a date as YYYY-MM-DD in local time.
+ */
+export function formatDate(date: Date): string {
+  return `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+}
+
+/**
+ * Parses a YYYY-MM-DD date (or a relative date expression) to a local
+ * date at midnight. Returns null for anything else.
+ */
+export function parseDate(value: string, now: Date = new Date()): Date | null {
+  const match = resolveDateValue(value, now).match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const date = new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Number of days from one date to another (negative if `to` is earlier).
+ */
+export function daysBetween(from: Date, to: Date): number {
+  // Rounding absorbs the hour lost or gained at daylight saving changes
+  return Math.round((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Returns a new date the given number of days after a date.
+ */
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date.getTime());
+  addToDate(result, days, "d");
+  return result;
+}
+
+/**
+ * Date offset such as "-2d", "+1w" or "3m".
+ */
+const DATE_OFFSET_REGEX = /^([+-]?)\s*(\d+)\s*([dwmy])$/;
+
+/**
+ * Whether a value is a valid date offset ("-2d", "+1w", "3m", "1y").
+ */
+export function isDateOffset(offset: string): boolean {
+  return DATE_OFFSET_REGEX.test(offset.trim().toLowerCase());
+}
+
+/**
+ * Returns a new date moved by an offset such as "-2d" or "+1m".
+ * Returns null if the offset is not valid.
+ */
+export function applyDateOffset(date: Date, offset: string): Date | null {
+  const match = offset.trim().toLowerCase().match(DATE_OFFSET_REGEX);
+  if (!match) return null;
+
+  const result = new Date(date.getTime());
+  addToDate(result, parseInt(match[2], 10) * (match[1] === "-" ? -1 : 1), match[3]);
+  return result;
+}
+
+const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/**
+ * Pattern tokens, longest first so that e.g. "MMMM" wins over "MM".
+ */
+const PATTERN_TOKEN_REGEX = /\[([^\]]*)\]|YYYY|GGGG|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|WW|W/g;
+
+/**
+ * Formats a date with a pattern in the style of Moment.js:
+ * YYYY / YY (year), GGGG (ISO week year), MMMM / MMM / MM / M (month),
+ * DD / D (day), dddd / ddd (weekday), WW / W (ISO week).
+ * Text in square brackets is copied as is, e.g. "YYYY-[W]WW".
+ */
+export function formatDatePattern(date: Date, pattern: string): string {
+  return pattern.replace(PATTERN_TOKEN_REGEX, (token: string, literal?: string) => {
+    if (literal !== undefined) return literal;
+
+    switch (token) {
+      case "YYYY":
+        return String(date.getFullYear());
+      case "YY":
+        return pad2(date.getFullYear() % 100);
+      case "GGGG":
+        return String(getIsoWeek(date).year);
+      case "MMMM":
+        return MONTH_NAMES[date.getMonth()];
+      case "MMM":
+        return MONTH_NAMES[date.getMonth()].slice(0, 3);
+      case "MM":
+        return pad2(date.getMonth() + 1);
+      case "M":
+        return String(date.getMonth() + 1);
+      case "DD":
+        return pad2(date.getDate());
+      case "D":
+        return String(date.getDate());
+      case "dddd":
+        return WEEKDAY_NAMES[date.getDay()];
+      case "ddd":
+        return WEEKDAY_NAMES[date.getDay()].slice(0, 3);
+      case "WW":
+        return pad2(getIsoWeek(date).week);
+      case "W":
+        return String(getIsoWeek(date).week);
+      default:
+        return token;
+    }
+  });
+}
+
+/**
+ * Describes a date relative to today: "today", "tomorrow", "yesterday",
+ * "in 3 days" or "3 days ago".
+ */
+export function formatRelativeDate(date: Date, now: Date = new Date()): string {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const days = daysBetween(today, date);
+
+  if (days === 0) return "today";
+  if (days === 1) return "tomorrow";
+  if (days === -1) return "yesterday";
+  return days > 0 ? `in ${days} days` : `${-days} days ago`;
+}
+
+/**
+ * Returns the ISO 8601 week number and week-numbering year of a date
+ * (weeks start on Monday; week 1 contains the first Thursday of the year).
+ */
+function getIsoWeek(date: Date): { year: number; week: number } {
+  // The Thursday of the same week decides the year
+  const thursday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  thursday.setDate(thursday.getDate() + 3 - ((thursday.getDay() + 6) % 7));
+
+  const firstOfYear = new Date(thursday.getFullYear(), 0, 1);
+  return {
+    year: thursday.getFullYear(),
+    week: Math.floor(daysBetween(firstOfYear, thursday) / 7) + 1,
+  };
+}
+
+/**
+ * Returns a new local date at midnight for the given base keyword.
+ */
+function resolveBase(base: string, now: Date): Date {
+  const date = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  switch (base) {
+    case "tomorrow":
+      date.setDate(date.getDate() + 1);
+      break;
+    case "yesterday":
+      date.setDate(date.getDate() - 1);
+      break;
+    case "start of week":
+      // getDay(): 0 = Sunday; shift so Monday is the first day
+      date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+      break;
+    case "end of week":
+      date.setDate(date.getDate() + (6 - ((date.getDay() + 6) % 7)));
+      break;
+    case "start of month":
+      date.setDate(1);
+      break;
+    case "end of month":
+      date.setMonth(date.getMonth() + 1, 0);
+      break;
+    case "start of year":
+      date.setMonth(0, 1);
+      break;
+    case "end of year":
+      date.setMonth(11, 31);
+      break;
+  }
+
+  return date;
+}
+
+/**
+ * Adds an amount of days (d), weeks (w), months (m) or years (y) to a date.
+ * Month and year offsets keep the day of the month, clamped to the length
+ * of the target month, so 2025-01-31 +1m is 2025-02-28.
+ */
+function addToDate(date: Date, amount: number, unit: string): void {
+  switch (unit) {
+    case "d":
+      date.setDate(date.getDate() + amount);
+      break;
+    case "w":
+      date.setDate(date.getDate() + amount * 7);
+      break;
+    case "m":
+      addMonths(date, amount);
+      break;
+    case "y":
+      addMonths(date, amount * 12);
+      break;
+  }
+}
+
+/**
+ * Adds months to a date, clamping the day to the length of the target month.
+ */
+function addMonths(date: Date, months: number): void {
+  const day = date.getDate();
+  date.setDate(1);
+  date.setMonth(date.getMonth() + months);
+  const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  date.setDate(Math.min(day, daysInMonth));
+}
+
+/**
+ * Pads a number to two digits.
+ */
+function pad2(n: number): string {
+  return n < 10 ? `0${n}` : String(n);
+}
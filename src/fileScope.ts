@@ -0,0 +1,159 @@
+import { FileScope, FrontmatterCondition } from "./types";
+
+/**
+ * The information about a file that file scopes are evaluated against.
+ */
+export interface FileContext {
+  /** Vault-relative path */
+  path: string;
+  /** All tags of the note (frontmatter and inline), including the leading '#' */
+  tags: string[];
+  /** Parsed frontmatter, or null if the note has none */
+  frontmatter: Record<string, unknown> | null;
+}
+
+/**
+ * Checks whether a file falls inside a mapping's file scope.
+ * All configured criteria must match; empty criteria are ignored.
+ */
+export function matchesFileScope(
+  context: FileContext,
+  scope: FileScope | undefined
+): boolean {
+  if (!scope) return true;
+
+  if (
+    scope.includePaths.length > 0 &&
+    !scope.includePaths.some((p) => matchesPathPattern(context.path, p))
+  ) {
+    return false;
+  }
+
+  if (scope.excludePaths.some((p) => matchesPathPattern(context.path, p))) {
+    return false;
+  }
+
+  if (!scope.requiredTags.every((tag) => noteHasTag(context.tags, tag))) {
+    return false;
+  }
+
+  return scope.frontmatterConditions.every((cond) =>
+    matchesFrontmatterCondition(context.frontmatter, cond)
+  );
+}
+
+/**
+ * Matches a path against a folder path or glob pattern.
+ *
+ * Patterns without glob characters are folder paths: they match the folder's
+ * contents (and a file with exactly that path). Glob patterns must match the
+ * whole path: `*` matches within one folder level, `**` across levels and
+ * `?` a single character, e.g. `Projects/**` or `Daily/*.md`.
+ */
+export function matchesPathPattern(path: string, pattern: string): boolean {
+  const trimmed = pattern.trim();
+  if (trimmed === "") return false;
+
+  if (!/[*?]/.test(trimmed)) {
+    const folder = trimmed.endsWith("/") ? trimmed : trimmed + "/";
+    return path === trimmed || path.startsWith(folder);
+  }
+
+  return globToRegExp(trimmed).test(path);
+}
+
+/**
+ * Converts a glob pattern to an anchored regular expression.
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" also matches zero folders
+        if (glob[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Checks whether a note has a tag (case-insensitive, '#' optional).
+ * Nested tags match their parent: `#project` matches `#project/alpha`.
+ */
+function noteHasTag(noteTags: string[], tag: string): boolean {
+  let needle = tag.trim().toLowerCase();
+  if (needle === "") return true;
+  if (!needle.startsWith("#")) needle = "#" + needle;
+
+  return noteTags.some((t) => {
+    const noteTag = t.toLowerCase();
+    return noteTag === needle || noteTag.startsWith(needle + "/");
+  });
+}
+
+/**
+ * Checks a frontmatter condition. An empty value only requires the key to be
+ * set; otherwise the value must match (case-insensitive), or be one of the
+ * items if the property is a list.
+ */
+function matchesFrontmatterCondition(
+  frontmatter: Record<string, unknown> | null,
+  condition: FrontmatterCondition
+): boolean {
+  const actual = frontmatter ? frontmatter[condition.key] : undefined;
+  if (actual === undefined || actual === null || actual === "") return false;
+
+  const expected = condition.value.trim().toLowerCase();
+  if (expected === "") return true;
+
+  const values = Array.isArray(actual) ? actual : [actual];
+  return values.some((v) => String(v).trim().toLowerCase() === expected);
+}
+
+/**
+ * Parses "key: value" lines into frontmatter conditions.
+ * Lines without a colon only require the key to be set.
+ */
+export function parseFrontmatterConditions(text: string): FrontmatterCondition[] {
+  const conditions: FrontmatterCondition[] = [];
+  for (const line of text.split("\n")) {
+    const trimmed = line.trim();
+    if (trimmed === "") continue;
+    const colon = trimmed.indexOf(":");
+    if (colon === -1) {
+      conditions.push({ key: trimmed, value: "" });
+    } else {
+      conditions.push({
+        key: trimmed.substring(0, colon).trim(),
+        value: trimmed.substring(colon + 1).trim(),
+      });
+    }
+  }
+  return conditions.filter((c) => c.key.length > 0);
+}
+
+/**
+ * Formats frontmatter conditions as "key: value" lines.
+ */
+export function formatFrontmatterConditions(
+  conditions: FrontmatterCondition[]
+): string {
+  return conditions
+    .map((c) => (c.value ? `${c.key}: ${c.value}` : c.key))
+    .join("\n");
+}
@@ -0,0 +1,712 @@
+import {
+  OperationType,
+  ParsedTask,
+  TaskProperty,
+  TASK_PROPERTY_LABELS,
+  TypedValue,
+} from "./types";
+import { executeOperation, OperationOptions } from "./operations";
+import { addDays, daysBetween, formatDate, parseDate } from "./dateUtils";
+
+/**
+ * A value computed by a formula.
+ */
+export type FormulaValue = string | number | boolean | null | string[];
+
+/**
+ * A node of a parsed formula.
+ */
+export type FormulaNode =
+  | { type: "literal"; value: FormulaValue }
+  | { type: "identifier"; name: string }
+  | { type: "call"; name: string; args: FormulaNode[] }
+  | { type: "unary"; operator: string; operand: FormulaNode }
+  | { type: "binary"; operator: string; left: FormulaNode; right: FormulaNode }
+  | { type: "conditional"; test: FormulaNode; then: FormulaNode; otherwise: FormulaNode };
+
+/**
+ * A problem found while parsing a formula.
+ */
+export interface FormulaError {
+  /** 1-based column in the formula text */
+  column: number;
+  message: string;
+}
+
+/**
+ * Result of compiling a formula: the parsed expression (null if it has
+ * errors) and any parse errors.
+ */
+export interface CompiledFormula {
+  expression: FormulaNode | null;
+  errors: FormulaError[];
+}
+
+/**
+ * What a formula is evaluated against.
+ */
+export interface FormulaContext {
+  /** Tasks of the processed file */
+  tasks: ParsedTask[];
+  /** Frontmatter of the processed file */
+  frontmatter: Record<string, unknown>;
+  /** The current time ("today") */
+  now: Date;
+  options?: OperationOptions;
+}
+
+/** Longest formula accepted, in characters */
+const MAX_FORMULA_LENGTH = 2000;
+
+/** Deepest nesting of parentheses, calls and operators accepted */
+const MAX_NESTING_DEPTH = 50;
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Operations usable as variables, e.g. `count_open`.
+ */
+const AGGREGATE_VARIABLES: OperationType[] = [
+  "count_all",
+  "count_done",
+  "count_open",
+  "count_in_progress",
+  "count_cancelled",
+  "count_blocked",
+  "count_actionable",
+  "percentage_done",
+  "percentage_done_weighted",
+];
+
+/**
+ * Operations usable as functions of a task property, e.g. `min(due_date)`.
+ */
+const AGGREGATE_FUNCTIONS: OperationType[] = [
+  "min",
+  "max",
+  "count",
+  "first",
+  "last",
+  "list",
+  "list_unique",
+];
+
+/**
+ * Other functions with their minimum and maximum number of arguments.
+ */
+const FUNCTIONS: Record<string, [number, number]> = {
+  fm: [1, 1],
+  days_between: [2, 2],
+  days_until: [1, 1],
+  days_since: [1, 1],
+  add_days: [2, 2],
+  round: [1, 2],
+  floor: [1, 1],
+  ceil: [1, 1],
+  abs: [1, 1],
+  concat: [1, 20],
+  coalesce: [1, 20],
+  length: [1, 1],
+  join: [1, 2],
+};
+
+/**
+ * A token of the formula text.
+ */
+interface Token {
+  type: "number" | "string" | "identifier" | "operator" | "end";
+  text: string;
+  value?: number | string;
+  /** 0-based position in the formula text */
+  position: number;
+}
+
+const OPERATORS = ["==", "!=", "<=", ">=", "&&", "||", "+", "-", "*", "/", "%", "<", ">", "!", "?", ":", "(", ")", ","];
+
+/**
+ * Error thrown while parsing; converted to a FormulaError.
+ */
+class FormulaSyntaxError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.position = position;
+  }
+}
+
+/**
+ * Compiles a formula such as `days_until(min(due_date))` or
+ * `count_open - count_blocked` or `count_open > 0 ? "active" : "idle"`.
+ *
+ * The language has numbers, "strings", true / false / null, the operators
+ * + - * / % == != < <= > >= && || ! and `a ? b : c`, the variable `today`,
+ * task aggregates (see AGGREGATE_VARIABLES and AGGREGATE_FUNCTIONS) and a
+ * fixed set of functions (see FUNCTIONS). Formulas are evaluated by
+ * walking the parsed tree — nothing is ever executed as JavaScript.
+ */
+export function compileFormula(formula: string): CompiledFormula {
+  if (formula.trim() === "") {
+    return { expression: null, errors: [{ column: 1, message: "Formula is empty" }] };
+  }
+  if (formula.length > MAX_FORMULA_LENGTH) {
+    return {
+      expression: null,
+      errors: [{ column: 1, message: `Formula is longer than ${MAX_FORMULA_LENGTH} characters` }],
+    };
+  }
+
+  try {
+    const parser = new FormulaParser(tokenize(formula));
+    return { expression: parser.parse(), errors: [] };
+  } catch (error) {
+    if (error instanceof FormulaSyntaxError) {
+      return {
+        expression: null,
+        errors: [{ column: error.position + 1, message: error.message }],
+      };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Splits a formula into tokens.
+ */
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const ch = formula[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const numberMatch = formula.slice(i).match(/^\d+(\.\d+)?/);
+    if (numberMatch) {
+      tokens.push({ type: "number", text: numberMatch[0], value: parseFloat(numberMatch[0]), position: i });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    const identifierMatch = formula.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (identifierMatch) {
+      tokens.push({ type: "identifier", text: identifierMatch[0], position: i });
+      i += identifierMatch[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let value = "";
+      let j = i + 1;
+      while (j < formula.length && formula[j] !== ch) {
+        // Backslash escapes the next character (e.g. \" or \\)
+        if (formula[j] === "\\" && j + 1 < formula.length) j++;
+        value += formula[j];
+        j++;
+      }
+      if (j >= formula.length) {
+        throw new FormulaSyntaxError("Unterminated string", i);
+      }
+      tokens.push({ type: "string", text: formula.slice(i, j + 1), value, position: i });
+      i = j + 1;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => formula.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: "operator", text: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    throw new FormulaSyntaxError(`Unexpected character "${ch}"`, i);
+  }
+
+  tokens.push({ type: "end", text: "", position: formula.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser producing a formula tree. Names of variables
+ * and functions and argument counts are checked while parsing.
+ */
+class FormulaParser {
+  private tokens: Token[];
+  private index = 0;
+  private depth = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  /**
+   * Parses the whole formula.
+   */
+  parse(): FormulaNode {
+    const expression = this.parseConditional();
+    const token = this.peek();
+    if (token.type !== "end") {
+      throw new FormulaSyntaxError(`Unexpected "${token.text}"`, token.position);
+    }
+    return expression;
+  }
+
+  private parseConditional(): FormulaNode {
+    this.enter();
+    const test = this.parseBinary(0);
+    let result = test;
+    if (this.match("?")) {
+      const then = this.parseConditional();
+      this.expect(":");
+      const otherwise = this.parseConditional();
+      result = { type: "conditional", test, then, otherwise };
+    }
+    this.depth--;
+    return result;
+  }
+
+  /**
+   * Parses binary operators by precedence level (lowest first).
+   */
+  private parseBinary(level: number): FormulaNode {
+    const levels = [["||"], ["&&"], ["==", "!="], ["<", "<=", ">", ">="], ["+", "-"], ["*", "/", "%"]];
+    if (level >= levels.length) return this.parseUnary();
+
+    let left = this.parseBinary(level + 1);
+    let operator = this.matchAny(levels[level]);
+    while (operator) {
+      const right = this.parseBinary(level + 1);
+      left = { type: "binary", operator, left, right };
+      operator = this.matchAny(levels[level]);
+    }
+    return left;
+  }
+
+  private parseUnary(): FormulaNode {
+    const operator = this.matchAny(["!", "-"]);
+    if (operator) {
+      this.enter();
+      const operand = this.parseUnary();
+      this.depth--;
+      return { type: "unary", operator, operand };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case "number":
+      case "string":
+        return { type: "literal", value: token.value ?? null };
+      case "identifier":
+        return this.parseIdentifier(token);
+      case "operator":
+        if (token.text === "(") {
+          const expression = this.parseConditional();
+          this.expect(")");
+          return expression;
+        }
+        break;
+    }
+
+    throw new FormulaSyntaxError(
+      token.type === "end" ? "Unexpected end of formula" : `Unexpected "${token.text}"`,
+      token.position
+    );
+  }
+
+  /**
+   * Parses a literal keyword, a variable or a function call.
+   */
+  private parseIdentifier(token: Token): FormulaNode {
+    const name = token.text;
+
+    if (!this.match("(")) {
+      if (name === "true" || name === "false") return { type: "literal", value: name === "true" };
+      if (name === "null") return { type: "literal", value: null };
+      if (name === "today" || AGGREGATE_VARIABLES.indexOf(name as OperationType) !== -1) {
+        return { type: "identifier", name };
+      }
+      throw new FormulaSyntaxError(`Unknown variable "${name}"`, token.position);
+    }
+
+    // Aggregates over a task property, e.g. min(due_date)
+    if (AGGREGATE_FUNCTIONS.indexOf(name as OperationType) !== -1) {
+      const property = this.next();
+      if (property.type !== "identifier" || !hasOwn(TASK_PROPERTY_LABELS, property.text)) {
+        throw new FormulaSyntaxError(
+          `${name}() needs a task property, e.g. ${name}(due_date)`,
+          property.position
+        );
+      }
+      this.expect(")");
+      return { type: "call", name, args: [{ type: "identifier", name: property.text }] };
+    }
+
+    // Own keys only, so names like "constructor" or "toString" are unknown
+    const arity = hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+    if (!arity) {
+      throw new FormulaSyntaxError(`Unknown function "${name}"`, token.position);
+    }
+
+    const args: FormulaNode[] = [];
+    if (!this.match(")")) {
+      do {
+        args.push(this.parseConditional());
+      } while (this.match(","));
+      this.expect(")");
+    }
+
+    if (args.length < arity[0] || args.length > arity[1]) {
+      const expected = arity[0] === arity[1] ? `${arity[0]}` : `${arity[0]} to ${arity[1]}`;
+      throw new FormulaSyntaxError(
+        `${name}() takes ${expected} argument${arity[1] === 1 ? "" : "s"}`,
+        token.position
+      );
+    }
+
+    return { type: "call", name, args };
+  }
+
+  /**
+   * Tracks nesting depth, so deeply nested formulas fail cleanly.
+   */
+  private enter(): void {
+    this.depth++;
+    if (this.depth > MAX_NESTING_DEPTH) {
+      throw new FormulaSyntaxError("Formula is nested too deeply", this.peek().position);
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== "end") this.index++;
+    return token;
+  }
+
+  private match(operator: string): boolean {
+    const token = this.peek();
+    if (token.type === "operator" && token.text === operator) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchAny(operators: string[]): string | null {
+    const token = this.peek();
+    if (token.type === "operator" && operators.indexOf(token.text) !== -1) {
+      this.index++;
+      return token.text;
+    }
+    return null;
+  }
+
+  private expect(operator: string): void {
+    if (!this.match(operator)) {
+      const token = this.peek();
+      throw new FormulaSyntaxError(`Expected "${operator}"`, token.position);
+    }
+  }
+}
+
+/**
+ * Evaluates a compiled formula. Arithmetic with null gives null, and so do
+ * invalid operations such as division by zero or date functions on text
+ * that is not a date.
+ */
+export function evaluateFormula(node: FormulaNode, context: FormulaContext): FormulaValue {
+  switch (node.type) {
+    case "literal":
+      return node.value;
+    case "identifier":
+      return evaluateVariable(node.name, context);
+    case "call":
+      return evaluateCall(node.name, node.args, context);
+    case "unary": {
+      const operand = evaluateFormula(node.operand, context);
+      if (node.operator === "!") return !isTruthy(operand);
+      return typeof operand === "number" ? -operand : null;
+    }
+    case "binary":
+      return evaluateBinary(node.operator, node.left, node.right, context);
+    case "conditional":
+      return isTruthy(evaluateFormula(node.test, context))
+        ? evaluateFormula(node.then, context)
+        : evaluateFormula(node.otherwise, context);
+  }
+}
+
+/**
+ * Whether a formula depends on the current date (uses `today` or a
+ * function relative to it).
+ */
+export function usesCurrentDate(node: FormulaNode): boolean {
+  switch (node.type) {
+    case "identifier":
+      return node.name === "today";
+    case "call":
+      return (
+        node.name === "days_until" ||
+        node.name === "days_since" ||
+        node.args.some(usesCurrentDate)
+      );
+    case "unary":
+      return usesCurrentDate(node.operand);
+    case "binary":
+      return usesCurrentDate(node.left) || usesCurrentDate(node.right);
+    case "conditional":
+      return (
+        usesCurrentDate(node.test) ||
+        usesCurrentDate(node.then) ||
+        usesCurrentDate(node.otherwise)
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Converts a formula result to a typed value: YYYY-MM-DD strings become
+ * dates, lists become lists. Returns null for null and non-finite numbers.
+ */
+export function toFormulaTypedValue(value: FormulaValue): TypedValue | null {
+  if (value === null) return null;
+  if (Array.isArray(value)) return { type: "list", value };
+  if (typeof value === "number") {
+    return isFinite(value) ? { type: "number", value } : null;
+  }
+  if (typeof value === "boolean") return { type: "boolean", value };
+  return DATE_REGEX.test(value) ? { type: "date", value } : { type: "string", value };
+}
+
+/**
+ * Evaluates `today` or a task aggregate variable such as `count_open`.
+ */
+function evaluateVariable(name: string, context: FormulaContext): FormulaValue {
+  if (name === "today") return formatDate(context.now);
+
+  // Counts of an empty file are 0 rather than "no value"
+  if (context.tasks.length === 0 && name.startsWith("count_")) return 0;
+
+  return fromTypedValue(executeOperation(context.tasks, "status", name, context.options));
+}
+
+/**
+ * Evaluates a function call.
+ */
+function evaluateCall(
+  name: string,
+  args: FormulaNode[],
+  context: FormulaContext
+): FormulaValue {
+  if (AGGREGATE_FUNCTIONS.indexOf(name as OperationType) !== -1) {
+    const property = (args[0] as { name: string }).name as TaskProperty;
+    if (context.tasks.length === 0 && name === "count") return 0;
+    return fromTypedValue(executeOperation(context.tasks, property, name, context.options));
+  }
+
+  const values = args.map((arg) => evaluateFormula(arg, context));
+
+  switch (name) {
+    case "fm":
+      return toFormulaValue(context.frontmatter[String(values[0])]);
+    case "days_between":
+      return dateDifference(values[0], values[1], context.now);
+    case "days_until":
+      return dateDifference(formatDate(context.now), values[0], context.now);
+    case "days_since":
+      return dateDifference(values[0], formatDate(context.now), context.now);
+    case "add_days": {
+      const date = typeof values[0] === "string" ? parseDate(values[0], context.now) : null;
+      if (!date || typeof values[1] !== "number") return null;
+      return formatDate(addDays(date, Math.round(values[1])));
+    }
+    case "round": {
+      if (typeof values[0] !== "number") return null;
+      const factor = Math.pow(10, typeof values[1] === "number" ? values[1] : 0);
+      return Math.round(values[0] * factor) / factor;
+    }
+    case "floor":
+      return typeof values[0] === "number" ? Math.floor(values[0]) : null;
+    case "ceil":
+      return typeof values[0] === "number" ? Math.ceil(values[0]) : null;
+    case "abs":
+      return typeof values[0] === "number" ? Math.abs(values[0]) : null;
+    case "concat":
+      return values.map(toText).join("");
+    case "coalesce":
+      for (const value of values) {
+        if (value !== null && value !== "") return value;
+      }
+      return null;
+    case "length":
+      if (Array.isArray(values[0]) || typeof values[0] === "string") return values[0].length;
+      return null;
+    case "join":
+      return Array.isArray(values[0])
+        ? values[0].join(values.length > 1 ? toText(values[1]) : ", ")
+        : toText(values[0]);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Evaluates a binary operator. && and || short-circuit.
+ */
+function evaluateBinary(
+  operator: string,
+  leftNode: FormulaNode,
+  rightNode: FormulaNode,
+  context: FormulaContext
+): FormulaValue {
+  const left = evaluateFormula(leftNode, context);
+
+  if (operator === "&&") {
+    return isTruthy(left) ? isTruthy(evaluateFormula(rightNode, context)) : false;
+  }
+  if (operator === "||") {
+    return isTruthy(left) ? true : isTruthy(evaluateFormula(rightNode, context));
+  }
+
+  const right = evaluateFormula(rightNode, context);
+
+  switch (operator) {
+    case "==":
+      return valuesEqual(left, right);
+    case "!=":
+      return !valuesEqual(left, right);
+    case "<":
+    case "<=":
+    case ">":
+    case ">=":
+      return compareValues(operator, left, right);
+    case "+":
+      // Text on either side concatenates
+      if (typeof left === "string" || typeof right === "string") {
+        return toText(left) + toText(right);
+      }
+      return typeof left === "number" && typeof right === "number" ? left + right : null;
+  }
+
+  if (typeof left !== "number" || typeof right !== "number") return null;
+
+  switch (operator) {
+    case "-":
+      return left - right;
+    case "*":
+      return left * right;
+    case "/":
+      return right === 0 ? null : left / right;
+    case "%":
+      return right === 0 ? null : left % right;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Days from date `a` to date `b`, or null if either is not a date.
+ */
+function dateDifference(a: FormulaValue, b: FormulaValue, now: Date): FormulaValue {
+  if (typeof a !== "string" || typeof b !== "string") return null;
+  const from = parseDate(a, now);
+  const to = parseDate(b, now);
+  return from && to ? daysBetween(from, to) : null;
+}
+
+/**
+ * Compares two numbers, or two strings (YYYY-MM-DD dates compare correctly
+ * as text). Comparisons involving other values are false.
+ */
+function compareValues(operator: string, left: FormulaValue, right: FormulaValue): boolean {
+  if (typeof left === "number" && typeof right === "number") {
+    return compareOrdered(operator, left, right);
+  }
+  if (typeof left === "string" && typeof right === "string") {
+    return compareOrdered(operator, left, right);
+  }
+  return false;
+}
+
+/**
+ * Applies a comparison operator to two values of the same type.
+ */
+function compareOrdered<T extends number | string>(operator: string, a: T, b: T): boolean {
+  switch (operator) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    default:
+      return a >= b;
+  }
+}
+
+/**
+ * Equality; lists are compared element by element.
+ */
+function valuesEqual(left: FormulaValue, right: FormulaValue): boolean {
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((v, i) => v === right[i]);
+  }
+  return left === right;
+}
+
+/**
+ * Truthiness: null, false, 0, "" and empty lists are false.
+ */
+function isTruthy(value: FormulaValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== null && value !== false && value !== 0 && value !== "";
+}
+
+/**
+ * Text form of a value for concatenation; null is empty.
+ */
+function toText(value: FormulaValue): string {
+  if (value === null) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+}
+
+/**
+ * Unwraps the result of an operation.
+ */
+function fromTypedValue(value: TypedValue | null): FormulaValue {
+  return value === null ? null : value.value;
+}
+
+/**
+ * Converts a frontmatter value to a formula value; other kinds of values
+ * (nested objects) are null.
+ */
+function toFormulaValue(value: unknown): FormulaValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return value;
+  }
+  if (Array.isArray(value)) return value.map((v) => String(v));
+  return null;
+}
+
+/**
+ * Whether an object has a key of its own (not one inherited from
+ * Object.prototype, such as "constructor").
+ */
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key) as boolean;
+}
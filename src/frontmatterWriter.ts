@@ -1,4 +1,11 @@
 import { App, TFile } from "obsidian";
+import {
+  FrontmatterChange,
+  FrontmatterUpdate,
+  FrontmatterValue,
+  TypedValue,
+} from "./types";
+import { FileOwnership } from "./ownership";
 
 /**
  * Updates a single frontmatter property in a file.
@@ -14,87 +21,275 @@ export async function updateFrontmatterProperty(
   app: App,
   file: TFile,
   key: string,
-  value: string | number | null,
+  value: TypedValue | null,
   overwriteExisting: boolean
 ): Promise<boolean> {
-  if (value === null || value === undefined) return false;
+  const changes = await updateFrontmatterProperties(app, file, [
+    { key, value, overwriteMode: overwriteExisting ? "always" : "never" },
+  ]);
+  return changes.length > 0;
+}
 
-  let updated = false;
+/**
+ * Updates multiple frontmatter properties in a single pass.
+ * Returns the changes that were made, with the values they replaced.
+ *
+ * With an ownership tracker, keys whose final value is the one the
+ * update asked for are marked as written by the plugin.
+ */
+export async function updateFrontmatterProperties(
+  app: App,
+  file: TFile,
+  updates: FrontmatterUpdate[],
+  ownership?: FileOwnership
+): Promise<FrontmatterChange[]> {
+  let changes: FrontmatterChange[] = [];
 
   await app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
-    const existingValue = frontmatter[key];
-
-    if (
-      !overwriteExisting &&
-      existingValue !== undefined &&
-      existingValue !== null &&
-      existingValue !== ""
-    ) {
-      return;
+    changes = getFrontmatterChanges(frontmatter, updates, ownership);
+    for (const change of changes) {
+      if (change.newValue === undefined) {
+        delete frontmatter[change.key];
+      } else {
+        frontmatter[change.key] = change.newValue;
+      }
     }
 
-    const newValue = coerceValue(value);
-    if (frontmatter[key] !== newValue) {
-      frontmatter[key] = newValue;
-      updated = true;
+    if (ownership) {
+      for (const update of updates) {
+        const newValue = getNewValue(update);
+        if (newValue === null && update.whenEmpty !== "empty") continue;
+
+        if (frontmatter[update.key] === undefined) {
+          ownership.release(update.key);
+        } else if (yamlValuesEqual(frontmatter[update.key], newValue)) {
+          ownership.markOwned(update.key, newValue);
+        }
+      }
     }
   });
 
-  return updated;
+  return changes;
 }
 
 /**
- * Updates multiple frontmatter properties in a single pass.
+ * Rolls back recorded changes: restores the old value of each key whose
+ * current value still equals the value the plugin wrote. Keys that were
+ * not set before are removed; keys edited since are left alone.
+ * Returns the changes made by restoring and how many keys were skipped.
+ *
+ * With an ownership tracker, restored keys are owned again only if the
+ * plugin had written the old value, so restored hand-written values are
+ * neither overwritten in "owned" mode nor synced back to tasks.
  */
-export async function updateFrontmatterProperties(
+export async function restoreFrontmatterValues(
   app: App,
   file: TFile,
-  updates: Array<{
-    key: string;
-    value: string | number | null;
-    overwriteExisting: boolean;
-  }>
-): Promise<boolean> {
-  let updated = false;
+  changes: FrontmatterChange[],
+  ownership?: FileOwnership
+): Promise<{ restored: FrontmatterChange[]; skipped: number }> {
+  const restored: FrontmatterChange[] = [];
+  let skipped = 0;
 
   await app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
-    for (const update of updates) {
-      if (update.value === null || update.value === undefined) continue;
+    for (const change of changes) {
+      if (!yamlValuesEqual(frontmatter[change.key], change.newValue)) {
+        skipped++;
+        continue;
+      }
+
+      if (change.oldValue === undefined) {
+        delete frontmatter[change.key];
+      } else {
+        frontmatter[change.key] = change.oldValue;
+      }
+      if (change.oldValue !== undefined && change.oldOwned) {
+        ownership?.markOwned(change.key, change.oldValue);
+      } else {
+        ownership?.release(change.key);
+      }
+      restored.push({
+        key: change.key,
+        oldValue: change.newValue,
+        newValue: change.oldValue as FrontmatterValue | undefined,
+      });
+    }
+  });
 
-      const existingValue = frontmatter[update.key];
+  return { restored, skipped };
+}
 
-      if (
-        !update.overwriteExisting &&
-        existingValue !== undefined &&
-        existingValue !== null &&
-        existingValue !== ""
-      ) {
+/**
+ * Writes previously computed changes (e.g. of a dry run) exactly as they
+ * are. A change is skipped if the property no longer has its old value.
+ * With an ownership tracker, written keys are marked as written by the
+ * plugin, and removed keys are released.
+ * Returns the changes that were made and how many were skipped.
+ */
+export async function applyFrontmatterChanges(
+  app: App,
+  file: TFile,
+  changes: FrontmatterChange[],
+  ownership?: FileOwnership
+): Promise<{ applied: FrontmatterChange[]; skipped: number }> {
+  const applied: FrontmatterChange[] = [];
+  let skipped = 0;
+
+  await app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+    for (const change of changes) {
+      if (!yamlValuesEqual(frontmatter[change.key], change.oldValue)) {
+        skipped++;
         continue;
       }
 
-      const newValue = coerceValue(update.value);
-      if (frontmatter[update.key] !== newValue) {
-        frontmatter[update.key] = newValue;
-        updated = true;
+      if (change.newValue === undefined) {
+        delete frontmatter[change.key];
+        ownership?.release(change.key);
+      } else {
+        frontmatter[change.key] = change.newValue;
+        ownership?.markOwned(change.key, change.newValue);
       }
+      applied.push(change);
     }
   });
 
-  return updated;
+  return { applied, skipped };
+}
+
+/**
+ * Works out which updates would change the given frontmatter, without
+ * writing anything. Updates without a value remove or empty the property
+ * as their `whenEmpty` says, or are left out. Updates marked
+ * `onlyIfPresent` are left out for properties that are not set and were
+ * not written by the plugin. Updates that may not
+ * overwrite an existing value (see `mayOverwrite`) and updates to the
+ * current value are left out.
+ */
+export function getFrontmatterChanges(
+  frontmatter: Record<string, unknown>,
+  updates: FrontmatterUpdate[],
+  ownership?: FileOwnership
+): FrontmatterChange[] {
+  // Later updates to the same key see the values of earlier ones
+  const changes = new Map<string, FrontmatterChange>();
+
+  for (const update of updates) {
+    const newValue = getNewValue(update);
+    if (newValue === null && update.whenEmpty !== "empty") continue;
+
+    const pending = changes.get(update.key);
+    const existingValue = pending ? pending.newValue : frontmatter[update.key];
+
+    if (update.onlyIfPresent && existingValue === undefined && !ownership?.has(update.key)) {
+      continue;
+    }
+
+    if (!isEmptyValue(existingValue) && !mayOverwrite(update, existingValue, ownership)) {
+      continue;
+    }
+
+    // Emptying a property that is already empty changes nothing
+    if (newValue === null && existingValue !== undefined && isEmptyValue(existingValue)) {
+      continue;
+    }
+
+    if (!yamlValuesEqual(existingValue, newValue)) {
+      changes.set(update.key, {
+        key: update.key,
+        oldValue: pending ? pending.oldValue : existingValue,
+        newValue,
+        oldOwned: pending
+          ? pending.oldOwned
+          : existingValue !== undefined && (ownership?.isOwned(update.key, existingValue) ?? false),
+      });
+    }
+  }
+
+  return Array.from(changes.values());
 }
 
 /**
- * Coerces a value to the appropriate type for frontmatter.
- * Numbers stay as numbers, dates stay as strings, etc.
+ * Returns a copy of the frontmatter with the updates applied, without
+ * writing anything. Used to let later mappings see earlier results.
  */
-function coerceValue(value: string | number): string | number {
-  if (typeof value === "number") return value;
+export function applyUpdatesToFrontmatter(
+  frontmatter: Record<string, unknown>,
+  updates: FrontmatterUpdate[],
+  ownership?: FileOwnership
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...frontmatter };
+  for (const change of getFrontmatterChanges(frontmatter, updates, ownership)) {
+    if (change.newValue === undefined) {
+      delete result[change.key];
+    } else {
+      result[change.key] = change.newValue;
+    }
+  }
+  return result;
+}
 
-  // If it's a pure integer, convert to number
-  if (/^\d+$/.test(value)) return parseInt(value, 10);
+/**
+ * Whether an update may replace an existing (non-empty) value.
+ * In "owned" mode, only values the plugin wrote itself are replaced.
+ */
+function mayOverwrite(
+  update: FrontmatterUpdate,
+  existingValue: unknown,
+  ownership?: FileOwnership
+): boolean {
+  switch (update.overwriteMode) {
+    case "always":
+      return true;
+    case "owned":
+      return ownership?.isOwned(update.key, existingValue) ?? false;
+    default:
+      return false;
+  }
+}
 
-  // If it's a percentage-like number, keep as number
-  if (/^\d+(\.\d+)?$/.test(value)) return parseFloat(value);
+/**
+ * Returns the value an update writes: the converted value, undefined to
+ * remove the property, or null for an empty property (or nothing to write).
+ */
+function getNewValue(update: FrontmatterUpdate): FrontmatterValue | undefined {
+  if (update.value !== null && update.value !== undefined) {
+    return toYamlValue(update.value);
+  }
+  return update.whenEmpty === "delete" ? undefined : null;
+}
 
-  return value;
+/**
+ * Converts a typed value to the value stored in frontmatter.
+ * Lists become YAML arrays; dates stay YYYY-MM-DD strings, which Obsidian
+ * recognises as date properties.
+ */
+function toYamlValue(value: TypedValue): FrontmatterValue {
+  if (value.type === "list") return value.value.slice();
+  return value.value;
+}
+
+/**
+ * Whether an existing frontmatter value counts as "not set".
+ */
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Compares an existing frontmatter value with a new value.
+ * Arrays are compared element by element.
+ */
+function yamlValuesEqual(existing: unknown, next: unknown): boolean {
+  if (Array.isArray(existing) && Array.isArray(next)) {
+    return (
+      existing.length === next.length &&
+      existing.every((v, i) => v === next[i])
+    );
+  }
+  return existing === next;
 }
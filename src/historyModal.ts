@@ -0,0 +1,30 @@
+import { App, FuzzySuggestModal } from "obsidian";
+import { ChangeRun } from "./types";
+
+/**
+ * Lets the user pick a run from the undo history.
+ */
+export class ChangeRunSuggestModal extends FuzzySuggestModal<ChangeRun> {
+  private runs: ChangeRun[];
+  private onChoose: (run: ChangeRun) => void;
+
+  constructor(app: App, runs: ChangeRun[], onChoose: (run: ChangeRun) => void) {
+    super(app);
+    this.runs = runs;
+    this.onChoose = onChoose;
+    this.setPlaceholder("Choose a run to undo");
+  }
+
+  getItems(): ChangeRun[] {
+    return this.runs;
+  }
+
+  getItemText(run: ChangeRun): string {
+    const fileCount = run.files.length;
+    return `${run.label} — ${new Date(run.timestamp).toLocaleString()} (${fileCount} ${fileCount === 1 ? "file" : "files"})`;
+  }
+
+  onChooseItem(run: ChangeRun): void {
+    this.onChoose(run);
+  }
+}
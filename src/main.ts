@@ -1,34 +1,170 @@
-import { Plugin, TFile, TAbstractFile, Notice, debounce } from "obsidian";
+import { Plugin, TFile, TAbstractFile, Notice, debounce, normalizePath } from "obsidian";
 import {
   TaskPropertyPluginSettings,
+  DirectMapping,
+  OperationMapping,
+  Condition,
+  ConditionLogic,
   DEFAULT_SETTINGS,
+  DEFAULT_STATUSES,
+  DEFAULT_HIERARCHY_OPTIONS,
+  DEFAULT_SECTION_SCOPE,
+  DEFAULT_DATE_OUTPUT,
+  DEFAULT_TASK_SELECTION,
+  FilePreview,
+  ChangeRun,
 } from "./types";
-import { TaskPropertyProcessor } from "./processor";
+import { ProcessAllOptions, TaskPropertyProcessor } from "./processor";
+import { TaskPropertySyncApi, createApi, triggerUpdated } from "./api";
+import { TaskIndex } from "./taskIndex";
+import { ProgressNotice } from "./progressNotice";
+import { PreviewModal } from "./previewModal";
+import { ChangeRunSuggestModal } from "./historyModal";
+import { ChangeHistory } from "./changeHistory";
+import { OwnershipStore, StoredOwnership } from "./ownership";
+import { restoreFrontmatterValues } from "./frontmatterWriter";
 import { TaskPropertySettingTab } from "./settingsTab";
+import { formatDate } from "./dateUtils";
+import { createConditionGroup, createFileScope, createProgressOutput } from "./utils";
+
+/** How often to check whether the date has rolled over (ms) */
+const DATE_CHECK_INTERVAL = 60 * 1000;
+
+/** How long to wait after the last change before saving the task index (ms) */
+const INDEX_SAVE_DELAY = 5 * 1000;
+
+/** How long to wait after the last recorded change before saving the undo history and ownership (ms) */
+const HISTORY_SAVE_DELAY = 2 * 1000;
+
+/**
+ * Data stored besides the settings in the plugin's data file.
+ */
+interface StoredPluginData {
+  history?: ChangeRun[];
+  ownership?: StoredOwnership;
+}
+
+/**
+ * Shape of operation mappings saved before nested condition groups existed.
+ */
+interface LegacyConditionFields {
+  conditions?: Condition[];
+  conditionLogic?: ConditionLogic;
+}
+
+/**
+ * Shape of mappings saved before overwrite modes existed.
+ */
+interface LegacyOverwriteFields {
+  overwriteExisting?: boolean;
+}
+
+/**
+ * Converts the `overwriteExisting` toggle of older settings into an overwrite mode.
+ */
+function migrateOverwriteMode(mapping: DirectMapping | OperationMapping): void {
+  const legacy = mapping as (DirectMapping | OperationMapping) & LegacyOverwriteFields;
+
+  if (!mapping.overwriteMode) {
+    mapping.overwriteMode = legacy.overwriteExisting === false ? "never" : "always";
+  }
+
+  delete legacy.overwriteExisting;
+}
+
+/**
+ * Converts the flat `conditions` / `conditionLogic` fields of older settings
+ * into a root condition group.
+ */
+function migrateConditions(mapping: OperationMapping): void {
+  const legacy = mapping as OperationMapping & LegacyConditionFields;
+
+  if (!mapping.conditionGroup) {
+    mapping.conditionGroup = createConditionGroup(legacy.conditionLogic || "AND");
+    if (Array.isArray(legacy.conditions)) {
+      mapping.conditionGroup.conditions = legacy.conditions;
+    }
+  }
+
+  delete legacy.conditions;
+  delete legacy.conditionLogic;
+}
 
 export default class TaskPropertyPlugin extends Plugin {
   settings: TaskPropertyPluginSettings = DEFAULT_SETTINGS;
   processor: TaskPropertyProcessor;
 
+  /** Public API for other plugins and scripts (see api.ts) */
+  api: TaskPropertySyncApi;
+
+  /** Cached tasks and last computed values per file */
+  private taskIndex: TaskIndex;
+
+  /** Debounced save of the task index */
+  private debouncedSaveIndex = debounce(
+    () => void this.taskIndex.save(),
+    INDEX_SAVE_DELAY,
+    true
+  );
+
+  /** Frontmatter changes made by the plugin, for undo */
+  private history: ChangeHistory;
+
+  /** Which frontmatter values the plugin wrote itself */
+  private ownership: OwnershipStore;
+
+  /** Debounced save of the plugin data after the undo history or ownership changed */
+  private debouncedSavePluginData = debounce(
+    () => void this.savePluginData(),
+    HISTORY_SAVE_DELAY,
+    true
+  );
+
+  /** Whether a run over many files is in progress */
+  private processingAll = false;
+
   /** Debounced file processing to avoid excessive updates */
   private debouncedProcessFile: (file: TFile) => void;
 
+  /** Changed files whose cross-note dependents still need re-processing */
+  private pendingDependents: Set<string> = new Set();
+
+  /** Debounced re-processing of the dependents of changed files */
+  private debouncedProcessDependents: () => void;
+
   /** Track if we're currently updating a file to prevent re-triggering */
   private isUpdating: Set<string> = new Set();
 
+  /** The local date (YYYY-MM-DD) seen by the last rollover check */
+  private currentDate: string = formatDate(new Date());
+
   async onload(): Promise<void> {
     // Load settings
     await this.loadSettings();
 
-    // Initialize processor
-    this.processor = new TaskPropertyProcessor(this.app, this.settings);
-
-    // Create debounced processor
-    this.debouncedProcessFile = debounce(
-      (file: TFile) => this.handleFileChange(file),
-      this.settings.debounceDelay,
-      true
+    // Load the task index and initialize processor
+    this.taskIndex = new TaskIndex(
+      this.app,
+      normalizePath(`${this.manifest.dir ?? ""}/task-index.json`)
     );
+    await this.taskIndex.load();
+    this.processor = new TaskPropertyProcessor(
+      this.app,
+      this.settings,
+      this.taskIndex,
+      this.history,
+      this.ownership
+    );
+
+    this.api = createApi({
+      app: this.app,
+      getSettings: () => this.settings,
+      getProcessor: () => this.processor,
+      processFile: (file) => this.handleFileChange(file),
+    });
+
+    // Create debounced processors
+    this.createDebouncedProcessors();
 
     // Register settings tab
     this.addSettingTab(new TaskPropertySettingTab(this.app, this));
@@ -51,9 +187,54 @@ export default class TaskPropertyPlugin extends Plugin {
     this.addCommand({
       id: "process-all-files",
       name: "Process all files",
+      callback: () => this.processAllFiles(),
+    });
+
+    this.addCommand({
+      id: "preview-current-file",
+      name: "Preview changes to current file",
       callback: async () => {
-        const count = await this.processor.processAllFiles();
-        new Notice(`Processed ${count} files.`);
+        const activeFile = this.app.workspace.getActiveFile();
+        if (!activeFile) {
+          new Notice("No active file.");
+          return;
+        }
+        const preview = await this.processor.previewFile(activeFile);
+        this.openPreview(preview ? [preview] : []);
+      },
+    });
+
+    this.addCommand({
+      id: "preview-all-files",
+      name: "Preview changes to all files",
+      callback: () => this.previewAllFiles(),
+    });
+
+    this.addCommand({
+      id: "undo-last-run",
+      name: "Undo last run",
+      callback: async () => {
+        const latest = this.history.getRuns()[0];
+        if (!latest) {
+          new Notice("Nothing to undo.");
+          return;
+        }
+        await this.undoRun(latest);
+      },
+    });
+
+    this.addCommand({
+      id: "undo-run",
+      name: "Undo a run from history",
+      callback: () => {
+        const runs = this.history.getRuns();
+        if (runs.length === 0) {
+          new Notice("Nothing to undo.");
+          return;
+        }
+        new ChangeRunSuggestModal(this.app, runs, (run) => {
+          void this.undoRun(run);
+        }).open();
       },
     });
 
@@ -71,6 +252,44 @@ export default class TaskPropertyPlugin extends Plugin {
       })
     );
 
+    // Re-process notes that aggregate tasks from a changed note (links / folder).
+    // The metadata cache event fires after links have been re-resolved.
+    this.registerEvent(
+      this.app.metadataCache.on("changed", (file: TFile) => {
+        if (!this.settings.processOnModify) return;
+        if (file.extension !== "md") return;
+
+        // Our own frontmatter writes don't change tasks
+        if (this.isUpdating.has(file.path)) return;
+
+        this.pendingDependents.add(file.path);
+        this.debouncedProcessDependents();
+
+        // Property edits of bidirectional mappings are read from the metadata
+        // cache, which can be updated after the modify event was handled
+        if (this.settings.directMappings.some((m) => m.enabled && m.bidirectional)) {
+          this.debouncedProcessFile(file);
+        }
+      })
+    );
+
+    // Keep the task index in step with renamed and deleted files
+    this.registerEvent(
+      this.app.vault.on("rename", (file: TAbstractFile, oldPath: string) => {
+        this.taskIndex.rename(oldPath, file.path);
+        this.history.rename(oldPath, file.path);
+        this.ownership.rename(oldPath, file.path);
+        this.debouncedSaveIndex();
+      })
+    );
+    this.registerEvent(
+      this.app.vault.on("delete", (file: TAbstractFile) => {
+        this.taskIndex.delete(file.path);
+        this.ownership.delete(file.path);
+        this.debouncedSaveIndex();
+      })
+    );
+
     // Process current file when a file is opened
     this.registerEvent(
       this.app.workspace.on("file-open", (file: TFile | null) => {
@@ -85,27 +304,174 @@ export default class TaskPropertyPlugin extends Plugin {
       })
     );
 
+    // Re-evaluate relative date conditions ("today", "end of week", ...)
+    // when the date rolls over
+    this.registerInterval(
+      window.setInterval(() => {
+        void this.checkDateRollover();
+      }, DATE_CHECK_INTERVAL)
+    );
   }
 
   onunload(): void {
-    // Nothing to clean up — all events are registered via registerEvent
+    // Events are registered via registerEvent; only the index and plugin data need saving
+    void this.taskIndex.save();
+    void this.savePluginData();
+  }
+
+  /**
+   * Processes all files with a progress notice that can cancel the run.
+   */
+  async processAllFiles(): Promise<void> {
+    await this.runWithProgress("Processing files...", async (progress) => {
+      const result = await this.processor.processAllFiles({
+        ...progress,
+        label: "Process all files",
+      });
+      new Notice(
+        result.cancelled
+          ? `Cancelled after ${result.processed} files (${result.updated} updated).`
+          : `Processed ${result.processed} files (${result.updated} updated).`
+      );
+    });
+  }
+
+  /**
+   * Runs a dry run over all files and shows the changes it would make.
+   */
+  async previewAllFiles(): Promise<void> {
+    await this.runWithProgress("Checking files...", async (progress) => {
+      const result = await this.processor.previewAllFiles(progress);
+      if (result.cancelled) {
+        new Notice("Preview cancelled.");
+        return;
+      }
+      this.openPreview(result.previews);
+    });
+  }
+
+  /**
+   * Opens the preview modal; applying writes the previewed changes of the
+   * chosen files.
+   */
+  private openPreview(previews: FilePreview[]): void {
+    new PreviewModal(this.app, previews, (paths) => {
+      const selected = previews.filter((p) => paths.includes(p.path));
+
+      void this.runWithProgress("Applying changes...", async (progress) => {
+        const result = await this.processor.applyPreviews(selected, {
+          ...progress,
+          label: "Apply preview",
+        });
+        const skipped =
+          result.skipped > 0
+            ? ` Skipped ${result.skipped} properties that changed since the preview.`
+            : "";
+        new Notice(
+          result.cancelled
+            ? `Cancelled after ${result.processed} files (${result.updated} updated).${skipped}`
+            : `Updated ${result.updated} files.${skipped}`
+        );
+      });
+    }).open();
+  }
+
+  /**
+   * Rolls back a run: restores the previous values of the keys it changed,
+   * unless they were edited since, and removes it from the history.
+   */
+  private async undoRun(run: ChangeRun): Promise<void> {
+    let restored = 0;
+    let skipped = 0;
+
+    for (const record of run.files) {
+      const file = this.app.vault.getAbstractFileByPath(record.path);
+      if (!(file instanceof TFile)) {
+        skipped += record.changes.length;
+        continue;
+      }
+
+      // Don't re-process the file because of our own write
+      this.isUpdating.add(file.path);
+      try {
+        const result = await restoreFrontmatterValues(
+          this.app,
+          file,
+          record.changes,
+          this.ownership.forFile(file.path)
+        );
+        restored += result.restored.length;
+        skipped += result.skipped;
+        triggerUpdated(this.app, file, result.restored);
+      } catch (error) {
+        console.error(
+          `Task Property Sync: Error restoring frontmatter for ${file.path}:`,
+          error
+        );
+        skipped += record.changes.length;
+      } finally {
+        setTimeout(() => {
+          this.isUpdating.delete(file.path);
+        }, 200);
+      }
+    }
+
+    this.history.remove(run.id);
+    await this.savePluginData();
+    new Notice(
+      skipped > 0
+        ? `Restored ${restored} properties; skipped ${skipped} that were changed since.`
+        : `Restored ${restored} properties.`
+    );
+  }
+
+  /**
+   * Runs a job over many files with a progress notice that can cancel it.
+   * Only one such job runs at a time.
+   */
+  private async runWithProgress(
+    label: string,
+    job: (options: ProcessAllOptions) => Promise<void>
+  ): Promise<void> {
+    if (this.processingAll) {
+      new Notice("Already processing files.");
+      return;
+    }
+
+    this.processingAll = true;
+    const progress = new ProgressNotice(label);
+    try {
+      await job({
+        onProgress: (done, total) => progress.setProgress(done, total),
+        isCancelled: () => progress.isCancelled(),
+      });
+    } catch (error) {
+      console.error("Task Property Sync: Error processing files:", error);
+    } finally {
+      progress.hide();
+      this.processingAll = false;
+    }
   }
 
   /**
    * Handles a file change event: parses tasks and updates frontmatter.
+   * Returns whether the frontmatter was written.
    */
-  private async handleFileChange(file: TFile): Promise<void> {
+  private async handleFileChange(file: TFile): Promise<boolean> {
     // Guard against re-entrant calls
-    if (this.isUpdating.has(file.path)) return;
+    if (this.isUpdating.has(file.path)) return false;
 
     try {
       this.isUpdating.add(file.path);
-      await this.processor.processFile(file);
+      const written = await this.processor.processFile(file);
+      this.debouncedSaveIndex();
+      return written;
     } catch (error) {
       console.error(
         `Task Property Sync: Error processing file ${file.path}:`,
         error
       );
+      return false;
     } finally {
       // Remove the guard after a short delay to prevent immediate re-trigger
       setTimeout(() => {
@@ -114,41 +480,163 @@ export default class TaskPropertyPlugin extends Plugin {
     }
   }
 
+  /**
+   * Re-processes the notes whose cross-note mappings read tasks from
+   * the files changed since the last run.
+   */
+  private async processPendingDependents(): Promise<void> {
+    const paths = Array.from(this.pendingDependents);
+    this.pendingDependents.clear();
+
+    const dependents = new Map<string, TFile>();
+    for (const path of paths) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) continue;
+      for (const dependent of this.processor.getDependentFiles(file)) {
+        dependents.set(dependent.path, dependent);
+      }
+    }
+
+    for (const dependent of Array.from(dependents.values())) {
+      await this.handleFileChange(dependent);
+    }
+  }
+
+  /**
+   * Re-processes all files when the date has changed since the last check
+   * and a mapping depends on relative dates. While another bulk job runs,
+   * the check is deferred to the next one.
+   */
+  private async checkDateRollover(): Promise<void> {
+    const today = formatDate(new Date());
+    if (today === this.currentDate) return;
+    if (this.processingAll) return;
+    this.currentDate = today;
+
+    if (!this.settings.processOnModify) return;
+    if (!this.processor.usesRelativeDates()) return;
+
+    this.processingAll = true;
+    try {
+      await this.processor.processAllFiles({ label: "Date change" });
+    } catch (error) {
+      console.error("Task Property Sync: Error processing files after date change:", error);
+    } finally {
+      this.processingAll = false;
+    }
+  }
+
   /**
    * Loads settings from Obsidian's data store.
    */
   async loadSettings(): Promise<void> {
-    const loadedData = (await this.loadData()) as Partial<TaskPropertyPluginSettings> | null;
+    const loadedData = (await this.loadData()) as
+      | (Partial<TaskPropertyPluginSettings> & StoredPluginData)
+      | null;
+
+    // The undo history and ownership are stored next to the settings
+    const history = loadedData?.history;
+    const ownership = loadedData?.ownership;
+    if (loadedData) {
+      delete loadedData.history;
+      delete loadedData.ownership;
+    }
+    this.history = new ChangeHistory(Array.isArray(history) ? history : [], () =>
+      this.debouncedSavePluginData()
+    );
+    this.ownership = new OwnershipStore(ownership ?? {}, () =>
+      this.debouncedSavePluginData()
+    );
+
     this.settings = Object.assign({}, DEFAULT_SETTINGS, loadedData ?? {});
 
     // Ensure arrays exist (in case of partial data)
     if (!Array.isArray(this.settings.directMappings)) {
       this.settings.directMappings = [];
     }
+    for (const mapping of this.settings.directMappings) {
+      migrateOverwriteMode(mapping);
+      if (typeof mapping.bidirectional !== "boolean") mapping.bidirectional = false;
+      if (!mapping.taskSelection) mapping.taskSelection = { ...DEFAULT_TASK_SELECTION };
+      if (typeof mapping.valueTemplate !== "string") mapping.valueTemplate = "";
+      if (!mapping.fileScope) mapping.fileScope = createFileScope();
+      if (!mapping.emptyValuePolicy) mapping.emptyValuePolicy = "keep";
+      if (typeof mapping.emptyValueDefault !== "string") mapping.emptyValueDefault = "";
+      if (!mapping.dateOutput) mapping.dateOutput = { ...DEFAULT_DATE_OUTPUT };
+    }
     if (!Array.isArray(this.settings.operationMappings)) {
       this.settings.operationMappings = [];
     }
+    for (const mapping of this.settings.operationMappings) {
+      migrateConditions(mapping);
+      migrateOverwriteMode(mapping);
+      if (!mapping.filterMode) mapping.filterMode = "builder";
+      if (typeof mapping.query !== "string") mapping.query = "";
+      if (!mapping.hierarchy) mapping.hierarchy = { ...DEFAULT_HIERARCHY_OPTIONS };
+      if (!mapping.sectionScope) mapping.sectionScope = { ...DEFAULT_SECTION_SCOPE };
+      if (!mapping.fileScope) mapping.fileScope = createFileScope();
+      if (!mapping.source) mapping.source = "file";
+      if (typeof mapping.valueTemplate !== "string") mapping.valueTemplate = "";
+      if (!mapping.progressOutput) mapping.progressOutput = createProgressOutput();
+      if (!mapping.emptyValuePolicy) mapping.emptyValuePolicy = "keep";
+      if (typeof mapping.emptyValueDefault !== "string") mapping.emptyValueDefault = "";
+      if (!mapping.dateOutput) mapping.dateOutput = { ...DEFAULT_DATE_OUTPUT };
+    }
+    if (!Array.isArray(this.settings.formulaMappings)) {
+      this.settings.formulaMappings = [];
+    }
+    for (const mapping of this.settings.formulaMappings) {
+      if (!mapping.dateOutput) mapping.dateOutput = { ...DEFAULT_DATE_OUTPUT };
+    }
     if (!Array.isArray(this.settings.excludedFolders)) {
       this.settings.excludedFolders = [];
     }
+    // Copy the default status registry so edits never mutate the defaults
+    if (!Array.isArray(loadedData?.statuses)) {
+      this.settings.statuses = DEFAULT_STATUSES.map((s) => ({ ...s }));
+    }
   }
 
   /**
    * Saves settings to Obsidian's data store.
    */
   async saveSettings(): Promise<void> {
-    await this.saveData(this.settings);
+    await this.savePluginData();
 
     // Update the processor with new settings
     if (this.processor) {
       this.processor.updateSettings(this.settings);
     }
 
-    // Recreate debounced function with new delay
+    // Recreate debounced functions with new delay
+    this.createDebouncedProcessors();
+  }
+
+  /**
+   * Writes the settings, the undo history and ownership to the plugin's data file.
+   */
+  private async savePluginData(): Promise<void> {
+    const data: TaskPropertyPluginSettings & StoredPluginData = {
+      ...this.settings,
+      history: this.history.getRuns(),
+      ownership: this.ownership.getData(),
+    };
+    await this.saveData(data);
+  }
+
+  /**
+   * Creates the debounced file and dependents processors with the configured delay.
+   */
+  private createDebouncedProcessors(): void {
     this.debouncedProcessFile = debounce(
       (file: TFile) => this.handleFileChange(file),
       this.settings.debounceDelay,
       true
     );
+    this.debouncedProcessDependents = debounce(
+      () => this.processPendingDependents(),
+      this.settings.debounceDelay,
+      true
+    );
   }
 }
@@ -1,31 +1,259 @@
-import { ParsedTask, Condition, ConditionLogic } from "./types";
-import { getTaskPropertyValue } from "./taskParser";
+import {
+  ParsedTask,
+  Condition,
+  ConditionGroup,
+  TypedValue,
+  ListOutputOptions,
+  DateOutputOptions,
+  HierarchyOptions,
+  SectionScope,
+  StatusDefinition,
+  TaskSelection,
+  DEFAULT_STATUSES,
+} from "./types";
+import {
+  getBlockId,
+  getTaskPropertyValue,
+  getTaskPropertyValues,
+  isDateProperty,
+  isOpenTask,
+  taskKey,
+  toTypedPropertyValue,
+} from "./taskParser";
+import {
+  applyDateOffset,
+  formatDate,
+  formatDatePattern,
+  formatRelativeDate,
+  parseDate,
+  resolveDateValue,
+} from "./dateUtils";
+import { compareTaskValues } from "./ordering";
+import { compileQueryFilter } from "./queryParser";
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Options that tweak how operations are computed.
+ */
+export interface OperationOptions {
+  /** Leave cancelled tasks out of percentage calculations */
+  excludeCancelledFromPercentage?: boolean;
+  /** Status registry, whose order is used to compare statuses */
+  statuses?: StatusDefinition[];
+}
 
 /**
- * Filters tasks by a set of conditions and returns only the matching tasks.
+ * Filters tasks by a condition group and returns only the matching tasks.
+ * Relative date values (e.g. "today+7d") are resolved against `now`;
+ * statuses are ordered as in the status registry.
  */
 export function filterTasksByConditions(
   tasks: ParsedTask[],
-  conditions: Condition[],
-  logic: ConditionLogic
+  group: ConditionGroup | undefined,
+  now: Date = new Date(),
+  statuses: StatusDefinition[] = DEFAULT_STATUSES
 ): ParsedTask[] {
-  if (!conditions || conditions.length === 0) return tasks;
+  if (!group || isEmptyGroup(group)) return tasks;
 
-  return tasks.filter((task) => {
-    if (logic === "AND") {
-      return conditions.every((cond) => evaluateCondition(task, cond));
-    } else {
-      return conditions.some((cond) => evaluateCondition(task, cond));
+  return tasks.filter((task) => evaluateGroup(task, group, now, statuses));
+}
+
+/**
+ * Selects the task a direct mapping reads `property` from, following its
+ * selection rule. Returns null if no task matches.
+ */
+export function selectTask(
+  tasks: ParsedTask[],
+  selection: TaskSelection,
+  property: string,
+  statuses: StatusDefinition[] = DEFAULT_STATUSES
+): ParsedTask | null {
+  const value = selection.value.trim();
+  let selected: ParsedTask | undefined;
+
+  switch (selection.rule) {
+    case "first":
+      selected = tasks[0];
+      break;
+    case "last":
+      selected = tasks[tasks.length - 1];
+      break;
+    case "first_open":
+      selected = tasks.find((t) => isOpenTask(t));
+      break;
+    case "tag":
+      selected = tasks.find((t) => hasValue(t, "tags", value));
+      break;
+    case "block_id": {
+      const blockId = value.replace(/^\^/, "");
+      selected = tasks.find((t) => blockId !== "" && getBlockId(t.line) === blockId);
+      break;
     }
+    case "query": {
+      const group = compileQueryFilter(value);
+      selected = group ? filterTasksByConditions(tasks, group, new Date(), statuses)[0] : undefined;
+      break;
+    }
+    case "highest_priority":
+      selected = tasks
+        .filter((t) => isOpenTask(t))
+        .reduce<ParsedTask | undefined>(
+          (best, task) =>
+            !best ||
+            compareTaskValues("priority", task.priority ?? "none", best.priority ?? "none") > 0
+              ? task
+              : best,
+          undefined
+        );
+      break;
+    default:
+      selected = tasks.find((t) => {
+        const taskValue = getTaskPropertyValue(t, property);
+        return taskValue !== null && taskValue !== "";
+      });
+  }
+
+  return selected ?? null;
+}
+
+/**
+ * Applies a mapping's sub-task options: optionally fills missing dates from
+ * the parent task (recursively, so grandchildren inherit too) and optionally
+ * keeps only top-level tasks. Tasks are copied, never modified in place.
+ */
+export function applyHierarchyOptions(
+  tasks: ParsedTask[],
+  options: HierarchyOptions
+): ParsedTask[] {
+  let result = tasks;
+
+  if (options.inheritParentDates) {
+    // Parents always come before their children, so one pass is enough
+    const byKey = new Map<string, ParsedTask>();
+    result = result.map((task) => {
+      const parent =
+        task.parentLine !== null
+          ? byKey.get(taskKey(task.filePath, task.parentLine))
+          : undefined;
+      const copy: ParsedTask = parent
+        ? {
+            ...task,
+            dueDate: task.dueDate ?? parent.dueDate,
+            scheduledDate: task.scheduledDate ?? parent.scheduledDate,
+            startDate: task.startDate ?? parent.startDate,
+          }
+        : task;
+      byKey.set(taskKey(copy.filePath, copy.lineNumber), copy);
+      return copy;
+    });
+  }
+
+  if (options.topLevelOnly) {
+    result = result.filter((task) => task.depth === 0);
+  }
+
+  return result;
+}
+
+/**
+ * Keeps only the tasks under the scope's heading (case-insensitive).
+ * Without sub-sections, the heading must be the task's innermost heading.
+ * An empty heading keeps all tasks.
+ */
+export function filterTasksBySection(
+  tasks: ParsedTask[],
+  scope: SectionScope
+): ParsedTask[] {
+  const heading = scope.heading.trim().toLowerCase();
+  if (heading === "") return tasks;
+
+  return tasks.filter((task) => {
+    const path = task.headingPath.map((h) => h.trim().toLowerCase());
+    if (scope.includeSubsections) return path.includes(heading);
+    return path.length > 0 && path[path.length - 1] === heading;
   });
 }
 
 /**
- * Evaluates a single condition against a task.
+ * Groups tasks by their innermost heading, in order of first appearance.
+ * Tasks without a heading are left out.
+ */
+export function groupTasksBySection(
+  tasks: ParsedTask[]
+): Array<{ section: string; tasks: ParsedTask[] }> {
+  const groups = new Map<string, ParsedTask[]>();
+  for (const task of tasks) {
+    const section = getTaskPropertyValue(task, "section");
+    if (section === null) continue;
+    const group = groups.get(section);
+    if (group) group.push(task);
+    else groups.set(section, [task]);
+  }
+  return Array.from(groups.entries()).map(([section, sectionTasks]) => ({
+    section,
+    tasks: sectionTasks,
+  }));
+}
+
+/**
+ * Collects all conditions of a group and its nested groups.
+ */
+export function collectConditions(group: ConditionGroup | undefined): Condition[] {
+  if (!group) return [];
+  const conditions = group.conditions.slice();
+  for (const child of group.groups) {
+    conditions.push(...collectConditions(child));
+  }
+  return conditions;
+}
+
+/**
+ * Whether a group has no conditions and no nested groups.
+ */
+function isEmptyGroup(group: ConditionGroup): boolean {
+  return group.conditions.length === 0 && group.groups.length === 0;
+}
+
+/**
+ * Evaluates a condition group against a task.
+ * Empty groups match every task, regardless of negation.
+ */
+function evaluateGroup(
+  task: ParsedTask,
+  group: ConditionGroup,
+  now: Date,
+  statuses: StatusDefinition[]
+): boolean {
+  if (isEmptyGroup(group)) return true;
+
+  const results = [
+    ...group.conditions.map((cond) => () => evaluateCondition(task, cond, now, statuses)),
+    ...group.groups.map((child) => () => evaluateGroup(task, child, now, statuses)),
+  ];
+
+  const matches =
+    group.logic === "AND"
+      ? results.every((evaluate) => evaluate())
+      : results.some((evaluate) => evaluate());
+
+  return group.negate ? !matches : matches;
+}
+
+/**
+ * Evaluates a single condition against a task. Ordering operators compare
+ * by the meaning of the property (see `compareTaskValues`).
  */
-function evaluateCondition(task: ParsedTask, condition: Condition): boolean {
+function evaluateCondition(
+  task: ParsedTask,
+  condition: Condition,
+  now: Date,
+  statuses: StatusDefinition[]
+): boolean {
   const taskValue = getTaskPropertyValue(task, condition.property);
-  const condValue = condition.value;
+  const condValue = isDateProperty(condition.property)
+    ? resolveDateValue(condition.value, now)
+    : condition.value;
 
   switch (condition.operator) {
     case "equals":
@@ -40,6 +268,14 @@ function evaluateCondition(task: ParsedTask, condition: Condition): boolean {
     case "not_contains":
       return taskValue === null || !taskValue.includes(condValue);
 
+    case "contains_ignore_case":
+      return taskValue !== null && taskValue.toLowerCase().includes(condValue.toLowerCase());
+
+    case "not_contains_ignore_case":
+      return (
+        taskValue === null || !taskValue.toLowerCase().includes(condValue.toLowerCase())
+      );
+
     case "is_empty":
       return taskValue === null || taskValue === "";
 
@@ -48,113 +284,366 @@ function evaluateCondition(task: ParsedTask, condition: Condition): boolean {
 
     case "greater_than":
       if (taskValue === null) return false;
-      return taskValue > condValue;
+      return compareTaskValues(condition.property, taskValue, condValue, statuses) > 0;
 
     case "less_than":
       if (taskValue === null) return false;
-      return taskValue < condValue;
+      return compareTaskValues(condition.property, taskValue, condValue, statuses) < 0;
 
     case "greater_or_equal":
       if (taskValue === null) return false;
-      return taskValue >= condValue;
+      return compareTaskValues(condition.property, taskValue, condValue, statuses) >= 0;
 
     case "less_or_equal":
       if (taskValue === null) return false;
-      return taskValue <= condValue;
+      return compareTaskValues(condition.property, taskValue, condValue, statuses) <= 0;
+
+    case "has_tag":
+      return hasValue(task, condition.property, condValue);
+
+    case "not_has_tag":
+      return !hasValue(task, condition.property, condValue);
+
+    case "has_any_tag":
+      return splitList(condValue).some((v) =>
+        hasValue(task, condition.property, v)
+      );
+
+    case "has_all_tags":
+      return splitList(condValue).every((v) =>
+        hasValue(task, condition.property, v)
+      );
 
     default:
       return true;
   }
 }
 
+/**
+ * Checks whether any value of a (multi-valued) property matches the given value.
+ * Comparison is case-insensitive. For tags, the leading '#' is optional and
+ * nested tags match their parent (`#work` matches `#work/project`).
+ */
+function hasValue(task: ParsedTask, property: string, expected: string): boolean {
+  let needle = expected.trim().toLowerCase();
+  if (needle === "") return false;
+
+  if (property === "tags") {
+    if (!needle.startsWith("#")) needle = "#" + needle;
+    return task.tags.some((tag) => {
+      const t = tag.toLowerCase();
+      return t === needle || t.startsWith(needle + "/");
+    });
+  }
+
+  return getTaskPropertyValues(task, property).some(
+    (value) => value.toLowerCase() === needle
+  );
+}
+
+/**
+ * Splits a comma-separated condition value into its trimmed, non-empty parts.
+ */
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((v) => v.trim())
+    .filter((v) => v.length > 0);
+}
+
 /**
  * Executes an operation on a list of tasks for a given property
- * and returns the result as a string suitable for frontmatter.
+ * and returns the result as a typed value.
  * Tasks should already be filtered by conditions before calling this.
  */
 export function executeOperation(
   tasks: ParsedTask[],
   taskProperty: string,
-  operation: string
-): string | null {
+  operation: string,
+  options: OperationOptions = {}
+): TypedValue | null {
   if (tasks.length === 0) return null;
 
   switch (operation) {
     case "min":
-      return computeMin(tasks, taskProperty);
+      return typed(taskProperty, computeMin(tasks, taskProperty, options.statuses));
     case "max":
-      return computeMax(tasks, taskProperty);
+      return typed(taskProperty, computeMax(tasks, taskProperty, options.statuses));
     case "count":
       return computeCount(tasks, taskProperty);
     case "count_all":
-      return String(tasks.length);
+      return countOf(tasks, () => true);
     case "count_done":
-      return String(tasks.filter((t) => t.isDone).length);
+      return countOf(tasks, (t) => t.isDone);
     case "count_open":
-      return String(tasks.filter((t) => !t.isDone).length);
+      return countOf(tasks, (t) => isOpenTask(t));
+    case "count_in_progress":
+      return countOf(tasks, (t) => t.statusType === "IN_PROGRESS");
+    case "count_cancelled":
+      return countOf(tasks, (t) => t.statusType === "CANCELLED");
     case "percentage_done":
-      return computePercentageDone(tasks);
+    case "percentage_done_weighted":
+      return {
+        type: "number",
+        value: Math.round(computeProgress(tasks, operation, options).percentage),
+      };
+    case "count_blocked":
+      return countOf(tasks, (t) => t.isBlocked);
+    case "count_actionable":
+      return countOf(tasks, (t) => isOpenTask(t) && !t.isBlocked);
     case "list":
       return computeList(tasks, taskProperty);
+    case "list_unique":
+      return computeListUnique(tasks, taskProperty);
     case "first":
-      return computeFirst(tasks, taskProperty);
+      return typed(taskProperty, computeFirst(tasks, taskProperty));
     case "last":
-      return computeLast(tasks, taskProperty);
+      return typed(taskProperty, computeLast(tasks, taskProperty));
     default:
       return null;
   }
 }
 
+/**
+ * Applies the list output options of a mapping to a list result:
+ * deduplicates, sorts, maps each value (e.g. to format dates), and either
+ * keeps the YAML list or joins it into text.
+ * Non-list results are returned unchanged.
+ */
+export function formatListResult(
+  result: TypedValue | null,
+  options: ListOutputOptions,
+  mapValue?: (value: string) => string
+): TypedValue | null {
+  if (result === null || result.type !== "list") return result;
+
+  let values = result.value.slice();
+  if (options.deduplicate) {
+    values = values.filter((v, i) => values.indexOf(v) === i);
+  }
+  if (options.sort === "asc") {
+    values.sort((a, b) => a.localeCompare(b));
+  } else if (options.sort === "desc") {
+    values.sort((a, b) => b.localeCompare(a));
+  }
+  if (mapValue) {
+    values = values.map(mapValue);
+  }
+
+  if (options.format === "text") {
+    return { type: "string", value: values.join(options.separator) };
+  }
+  return { type: "list", value: values };
+}
+
+/**
+ * Applies the date output options of a mapping to a date result: the
+ * offset, then the format. Dates stay date values for the date and
+ * datetime formats and become text otherwise. Other results are
+ * returned unchanged.
+ */
+export function applyDateOutput(
+  result: TypedValue | null,
+  options: DateOutputOptions,
+  now: Date = new Date()
+): TypedValue | null {
+  if (result === null || result.type !== "date") return result;
+
+  const value = formatDateText(result.value, options, now);
+  return options.format === "date" || options.format === "datetime"
+    ? { type: "date", value }
+    : { type: "string", value };
+}
+
+/**
+ * Applies the date output options to a single YYYY-MM-DD value (e.g. an
+ * element of a list result). Values that are not dates are returned unchanged.
+ */
+export function formatDateText(
+  value: string,
+  options: DateOutputOptions,
+  now: Date = new Date()
+): string {
+  if (!DATE_REGEX.test(value)) return value;
+
+  let date = parseDate(value);
+  if (!date) return value;
+  if (options.offset.trim() !== "") {
+    date = applyDateOffset(date, options.offset) ?? date;
+  }
+
+  switch (options.format) {
+    case "datetime":
+      return `${formatDate(date)}T00:00`;
+    case "custom":
+      return formatDatePattern(date, options.pattern || "YYYY-MM-DD");
+    case "relative":
+      return formatRelativeDate(date, now);
+    default:
+      return formatDate(date);
+  }
+}
+
+/**
+ * Wraps a single property value with the type of its property.
+ */
+function typed(property: string, value: string | null): TypedValue | null {
+  return value === null ? null : toTypedPropertyValue(property, value);
+}
+
+/**
+ * Returns the number of tasks matching a predicate.
+ */
+function countOf(
+  tasks: ParsedTask[],
+  predicate: (task: ParsedTask) => boolean
+): TypedValue {
+  return { type: "number", value: tasks.filter(predicate).length };
+}
+
 /**
  * Returns the minimum value of a task property across all tasks.
- * For dates, this means the earliest date.
+ * For dates, this means the earliest date; for priorities, the lowest.
  */
-function computeMin(tasks: ParsedTask[], property: string): string | null {
+function computeMin(
+  tasks: ParsedTask[],
+  property: string,
+  statuses?: StatusDefinition[]
+): string | null {
   const values = getPropertyValues(tasks, property);
   if (values.length === 0) return null;
 
-  // Sort lexicographically (works for YYYY-MM-DD dates and most string values)
-  values.sort();
-  return values[0];
+  return values.reduce((min, value) =>
+    compareTaskValues(property, value, min, statuses) < 0 ? value : min
+  );
 }
 
 /**
  * Returns the maximum value of a task property across all tasks.
- * For dates, this means the latest date.
+ * For dates, this means the latest date; for priorities, the highest.
  */
-function computeMax(tasks: ParsedTask[], property: string): string | null {
+function computeMax(
+  tasks: ParsedTask[],
+  property: string,
+  statuses?: StatusDefinition[]
+): string | null {
   const values = getPropertyValues(tasks, property);
   if (values.length === 0) return null;
 
-  values.sort();
-  return values[values.length - 1];
+  return values.reduce((max, value) =>
+    compareTaskValues(property, value, max, statuses) > 0 ? value : max
+  );
 }
 
 /**
  * Returns the count of tasks that have this property set.
  */
-function computeCount(tasks: ParsedTask[], property: string): string {
-  const values = getPropertyValues(tasks, property);
-  return String(values.length);
+function computeCount(tasks: ParsedTask[], property: string): TypedValue {
+  return countOf(tasks, (t) => getTaskPropertyValues(t, property).length > 0);
+}
+
+/**
+ * Progress of a list of tasks, before rounding.
+ */
+export interface Progress {
+  /** Percentage done, 0–100 (weighted for percentage_done_weighted) */
+  percentage: number;
+  /** Number of done tasks */
+  done: number;
+  /** Number of tasks counted towards the total */
+  total: number;
+}
+
+/**
+ * Whether an operation gives a progress percentage.
+ */
+export function isProgressOperation(operation: string): boolean {
+  return operation === "percentage_done" || operation === "percentage_done_weighted";
+}
+
+/**
+ * Computes the progress of tasks for percentage_done or, with
+ * `operation` "percentage_done_weighted", the sub-task weighted percentage.
+ * `done` and `total` always count tasks, so they are the same for both.
+ * Cancelled tasks can optionally be left out of the total.
+ */
+export function computeProgress(
+  tasks: ParsedTask[],
+  operation: string,
+  options: OperationOptions = {}
+): Progress {
+  const counted = options.excludeCancelledFromPercentage
+    ? tasks.filter((t) => t.statusType !== "CANCELLED")
+    : tasks;
+  const done = counted.filter((t) => t.isDone).length;
+  const total = counted.length;
+
+  let percentage: number;
+  if (operation === "percentage_done_weighted") {
+    percentage = computeWeightedPercentageDone(counted);
+  } else {
+    percentage = total === 0 ? 0 : (done / total) * 100;
+  }
+  return { percentage, done, total };
+}
+
+/**
+ * Returns the percentage done, where each task's share is split among its
+ * sub-tasks: a done task counts as 100%, an open task with sub-tasks counts
+ * as the average completion of its sub-tasks, and an open leaf task as 0%.
+ * The result is the average over the top-level tasks of the given list
+ * (tasks whose parent is not in the list).
+ */
+function computeWeightedPercentageDone(counted: ParsedTask[]): number {
+  const childrenByParent = new Map<string, ParsedTask[]>();
+  const keys = new Set(counted.map((t) => taskKey(t.filePath, t.lineNumber)));
+  const roots: ParsedTask[] = [];
+  for (const task of counted) {
+    const parentKey =
+      task.parentLine !== null ? taskKey(task.filePath, task.parentLine) : null;
+    if (parentKey !== null && keys.has(parentKey)) {
+      const siblings = childrenByParent.get(parentKey) ?? [];
+      siblings.push(task);
+      childrenByParent.set(parentKey, siblings);
+    } else {
+      roots.push(task);
+    }
+  }
+
+  const completion = (task: ParsedTask): number => {
+    if (task.isDone) return 1;
+    const children =
+      childrenByParent.get(taskKey(task.filePath, task.lineNumber)) ?? [];
+    if (children.length === 0) return 0;
+    return children.reduce((sum, c) => sum + completion(c), 0) / children.length;
+  };
+
+  if (roots.length === 0) return 0;
+  const total = roots.reduce((sum, t) => sum + completion(t), 0);
+  return (total / roots.length) * 100;
 }
 
 /**
- * Returns the percentage of tasks that are done.
+ * Returns a list of all values for a property.
  */
-function computePercentageDone(tasks: ParsedTask[]): string {
-  if (tasks.length === 0) return "0";
-  const doneCount = tasks.filter((t) => t.isDone).length;
-  const percentage = Math.round((doneCount / tasks.length) * 100);
-  return String(percentage);
+function computeList(tasks: ParsedTask[], property: string): TypedValue | null {
+  const values = getPropertyValues(tasks, property);
+  if (values.length === 0) return null;
+  return { type: "list", value: values };
 }
 
 /**
- * Returns a comma-separated list of all values for a property.
+ * Returns a list of the distinct values for a property,
+ * in order of first occurrence.
  */
-function computeList(tasks: ParsedTask[], property: string): string | null {
+function computeListUnique(
+  tasks: ParsedTask[],
+  property: string
+): TypedValue | null {
   const values = getPropertyValues(tasks, property);
   if (values.length === 0) return null;
-  return values.join(", ");
+  const unique = values.filter((v, i) => values.indexOf(v) === i);
+  return { type: "list", value: unique };
 }
 
 /**
@@ -185,14 +674,12 @@ function computeLast(tasks: ParsedTask[], property: string): string | null {
 
 /**
  * Collects all non-null values of a property from all tasks.
+ * Multi-valued properties (tags, links) contribute each value separately.
  */
 function getPropertyValues(tasks: ParsedTask[], property: string): string[] {
   const values: string[] = [];
   for (const task of tasks) {
-    const value = getTaskPropertyValue(task, property);
-    if (value !== null && value !== "") {
-      values.push(value);
-    }
+    values.push(...getTaskPropertyValues(task, property));
   }
   return values;
 }
@@ -0,0 +1,78 @@
+import { DEFAULT_STATUSES, StatusDefinition, StatusType } from "./types";
+
+/**
+ * Priorities from lowest to highest. "none" (no priority) sits between
+ * low and medium, as in the Tasks plugin and text queries.
+ */
+export const PRIORITY_ORDER = ["lowest", "low", "none", "medium", "high", "highest"];
+
+/**
+ * Status types in workflow order.
+ */
+const STATUS_TYPE_ORDER: StatusType[] = [
+  "TODO",
+  "IN_PROGRESS",
+  "DONE",
+  "CANCELLED",
+  "NON_TASK",
+];
+
+const NUMBER_REGEX = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+
+/**
+ * Compares two values of a task property by what they mean rather than
+ * as text: priorities by rank (highest is the largest), statuses by their
+ * order in the status registry, numbers numerically. Dates are compared as
+ * YYYY-MM-DD text, which orders them chronologically.
+ *
+ * Returns a negative number if `a` comes first, a positive number if `b`
+ * comes first, and 0 if they are equal.
+ */
+export function compareTaskValues(
+  property: string,
+  a: string,
+  b: string,
+  statuses: StatusDefinition[] = DEFAULT_STATUSES
+): number {
+  switch (property) {
+    case "priority":
+      return compareByRank(a.toLowerCase(), b.toLowerCase(), PRIORITY_ORDER);
+    case "status":
+      return compareByRank(a, b, statuses.map((s) => s.symbol));
+    case "status_name":
+      return compareByRank(
+        a.toLowerCase(),
+        b.toLowerCase(),
+        statuses.map((s) => s.name.toLowerCase())
+      );
+    case "status_type":
+      return compareByRank(a.toUpperCase(), b.toUpperCase(), STATUS_TYPE_ORDER);
+    default:
+      return compareValues(a, b);
+  }
+}
+
+/**
+ * Compares two values by their position in a ranking. Values that are not
+ * ranked are compared as plain values instead.
+ */
+function compareByRank(a: string, b: string, ranking: string[]): number {
+  const rankA = ranking.indexOf(a);
+  const rankB = ranking.indexOf(b);
+  if (rankA === -1 || rankB === -1) return compareValues(a, b);
+  return rankA - rankB;
+}
+
+/**
+ * Compares two values numerically if both are numbers, otherwise as text.
+ */
+function compareValues(a: string, b: string): number {
+  const trimmedA = a.trim();
+  const trimmedB = b.trim();
+  if (NUMBER_REGEX.test(trimmedA) && NUMBER_REGEX.test(trimmedB)) {
+    return parseFloat(trimmedA) - parseFloat(trimmedB);
+  }
+  if (a < b) return -1;
+  if (a > b) return 1;
+  return 0;
+}
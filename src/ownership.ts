@@ -0,0 +1,100 @@
+import { hashContent } from "./taskIndex";
+
+/**
+ * Stored ownership: file path → frontmatter key → hash of the value
+ * the plugin last wrote (or found already matching its result).
+ */
+export type StoredOwnership = Record<string, Record<string, string>>;
+
+/**
+ * Ownership of the frontmatter keys of one file.
+ */
+export interface FileOwnership {
+  /** Whether the plugin has written (or agreed with) a value of a key */
+  has(key: string): boolean;
+  /** The keys the plugin has written (or agreed with) */
+  keys(): string[];
+  /** Whether the value of a key is the one the plugin last wrote */
+  isOwned(key: string, value: unknown): boolean;
+  /** Records that the plugin wrote (or agrees with) the value of a key */
+  markOwned(key: string, value: unknown): void;
+  /** Forgets a key, e.g. after the plugin removed it */
+  release(key: string): void;
+}
+
+/**
+ * Remembers which frontmatter values the plugin wrote itself, so the
+ * "owned" overwrite mode can update them while leaving hand-edited values alone.
+ */
+export class OwnershipStore {
+  private owned: StoredOwnership;
+  private onChange: () => void;
+
+  /**
+   * @param owned - Ownership loaded from plugin data
+   * @param onChange - Called whenever ownership changes (to save it)
+   */
+  constructor(owned: StoredOwnership, onChange: () => void) {
+    this.owned = owned;
+    this.onChange = onChange;
+  }
+
+  /**
+   * Returns the stored ownership, for saving.
+   */
+  getData(): StoredOwnership {
+    return this.owned;
+  }
+
+  /**
+   * Returns the ownership of the keys of one file.
+   */
+  forFile(path: string): FileOwnership {
+    return {
+      has: (key) => this.owned[path]?.[key] !== undefined,
+      keys: () => Object.keys(this.owned[path] ?? {}),
+      isOwned: (key, value) => this.owned[path]?.[key] === hashValue(value),
+      markOwned: (key, value) => {
+        const hash = hashValue(value);
+        const keys = this.owned[path] ?? (this.owned[path] = {});
+        if (keys[key] === hash) return;
+        keys[key] = hash;
+        this.onChange();
+      },
+      release: (key) => {
+        const keys = this.owned[path];
+        if (!keys || keys[key] === undefined) return;
+        delete keys[key];
+        if (Object.keys(keys).length === 0) delete this.owned[path];
+        this.onChange();
+      },
+    };
+  }
+
+  /**
+   * Moves the ownership of a renamed file.
+   */
+  rename(oldPath: string, newPath: string): void {
+    const keys = this.owned[oldPath];
+    if (!keys) return;
+    delete this.owned[oldPath];
+    this.owned[newPath] = keys;
+    this.onChange();
+  }
+
+  /**
+   * Forgets the ownership of a deleted file.
+   */
+  delete(path: string): void {
+    if (!this.owned[path]) return;
+    delete this.owned[path];
+    this.onChange();
+  }
+}
+
+/**
+ * Hashes a frontmatter value for comparison.
+ */
+function hashValue(value: unknown): string {
+  return hashContent(JSON.stringify(value) ?? "undefined");
+}
@@ -0,0 +1,111 @@
+import { App, Modal, Setting } from "obsidian";
+import { FilePreview } from "./types";
+
+/**
+ * Modal listing the frontmatter changes of a dry run, per file, with
+ * the option to apply all of them, apply the selected files, or cancel.
+ */
+export class PreviewModal extends Modal {
+  private previews: FilePreview[];
+  private onApply: (paths: string[]) => void;
+  private selected: Set<string>;
+
+  constructor(
+    app: App,
+    previews: FilePreview[],
+    onApply: (paths: string[]) => void
+  ) {
+    super(app);
+    this.previews = previews;
+    this.onApply = onApply;
+    this.selected = new Set(previews.map((p) => p.path));
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    this.titleEl.setText("Preview changes");
+
+    if (this.previews.length === 0) {
+      contentEl.createEl("p", { text: "No frontmatter would change." });
+      new Setting(contentEl).addButton((button) =>
+        button.setButtonText("Close").onClick(() => this.close())
+      );
+      return;
+    }
+
+    const changeCount = this.previews.reduce((n, p) => n + p.changes.length, 0);
+    contentEl.createEl("p", {
+      text: `${changeCount} ${changeCount === 1 ? "property" : "properties"} in ${this.previews.length} ${this.previews.length === 1 ? "file" : "files"} would change.`,
+    });
+
+    const listEl = contentEl.createDiv({ cls: "tpp-preview-list" });
+    for (const preview of this.previews) {
+      this.renderFilePreview(listEl, preview);
+    }
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button
+          .setButtonText("Apply all")
+          .setCta()
+          .onClick(() => this.apply(this.previews.map((p) => p.path)))
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Apply selected")
+          .onClick(() => this.apply(Array.from(this.selected)))
+      )
+      .addButton((button) =>
+        button.setButtonText("Cancel").onClick(() => this.close())
+      );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  /**
+   * Renders one file: a checkbox to select it and its property changes.
+   */
+  private renderFilePreview(containerEl: HTMLElement, preview: FilePreview): void {
+    const fileEl = containerEl.createDiv({ cls: "tpp-preview-file" });
+
+    const labelEl = fileEl.createEl("label", { cls: "tpp-preview-file-name" });
+    const checkbox = labelEl.createEl("input", { type: "checkbox" });
+    checkbox.checked = this.selected.has(preview.path);
+    checkbox.addEventListener("change", () => {
+      if (checkbox.checked) this.selected.add(preview.path);
+      else this.selected.delete(preview.path);
+    });
+    labelEl.createSpan({ text: preview.path });
+
+    const changesEl = fileEl.createEl("ul", { cls: "tpp-preview-changes" });
+    for (const change of preview.changes) {
+      const itemEl = changesEl.createEl("li");
+      itemEl.createSpan({ cls: "tpp-preview-key", text: `${change.key}: ` });
+      itemEl.createSpan({ cls: "tpp-preview-old", text: formatPreviewValue(change.oldValue) });
+      itemEl.createSpan({ text: " → " });
+      itemEl.createSpan({ cls: "tpp-preview-new", text: formatPreviewValue(change.newValue) });
+    }
+  }
+
+  /**
+   * Closes the modal and applies the changes of the given files.
+   */
+  private apply(paths: string[]): void {
+    this.close();
+    if (paths.length > 0) this.onApply(paths);
+  }
+}
+
+/**
+ * Formats a frontmatter value for display in the preview.
+ */
+function formatPreviewValue(value: unknown): string {
+  if (value === undefined) return "(not set)";
+  if (value === null || value === "") return "(empty)";
+  if (Array.isArray(value)) return `[${value.map(formatPreviewValue).join(", ")}]`;
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return JSON.stringify(value);
+}
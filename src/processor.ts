@@ -1,8 +1,149 @@
-import { App, TFile } from "obsidian";
-import { TaskPropertyPluginSettings, DirectMapping, ParsedTask } from "./types";
-import { parseTasks, getTaskPropertyValue } from "./taskParser";
-import { executeOperation, filterTasksByConditions } from "./operations";
-import { updateFrontmatterProperties } from "./frontmatterWriter";
+import { App, Notice, TFile, getAllTags } from "obsidian";
+import {
+  TaskPropertyPluginSettings,
+  DirectMapping,
+  OperationMapping,
+  FormulaMapping,
+  TypedValue,
+  ConditionGroup,
+  TaskSource,
+  ParsedTask,
+  FrontmatterUpdate,
+  FrontmatterValue,
+  FilePreview,
+  DateOutputOptions,
+  TaskProperty,
+  ChangeRun,
+  LEGACY_LIST_OUTPUT,
+  DEFAULT_DATE_OUTPUT,
+  DEFAULT_PROGRESS_OUTPUT,
+  DEFAULT_TASK_SELECTION,
+  DEFAULT_HIERARCHY_OPTIONS,
+  DEFAULT_SECTION_SCOPE,
+} from "./types";
+import {
+  parseTasks,
+  getTaskPropertyValue,
+  getTypedTaskPropertyValue,
+  isDateProperty,
+  isWritableProperty,
+  setTaskLineProperty,
+} from "./taskParser";
+import {
+  executeOperation,
+  filterTasksByConditions,
+  formatListResult,
+  applyDateOutput,
+  formatDateText,
+  selectTask,
+  groupTasksBySection,
+  collectConditions,
+  applyHierarchyOptions,
+  filterTasksBySection,
+  computeProgress,
+  isProgressOperation,
+} from "./operations";
+import { formatProgress } from "./progress";
+import {
+  applyFrontmatterChanges,
+  applyUpdatesToFrontmatter,
+  getFrontmatterChanges,
+  updateFrontmatterProperties,
+} from "./frontmatterWriter";
+import { isRelativeDate } from "./dateUtils";
+import { compileQueryFilter } from "./queryParser";
+import { FileContext, matchesFileScope, matchesPathPattern } from "./fileScope";
+import { TaskIndex, hashContent } from "./taskIndex";
+import { ChangeHistory } from "./changeHistory";
+import { OwnershipStore } from "./ownership";
+import { triggerUpdated } from "./api";
+import {
+  TemplateContext,
+  hasTemplateVariables,
+  renderKeyTemplate,
+  matchesKeyTemplate,
+  renderTemplate,
+  usesSectionVariable,
+} from "./template";
+import {
+  compileFormula,
+  evaluateFormula,
+  toFormulaTypedValue,
+  usesCurrentDate,
+} from "./formula";
+
+/** How many files "Process all files" works on at the same time */
+const PROCESS_ALL_CONCURRENCY = 4;
+
+/**
+ * Progress reporting and cancellation for processing many files.
+ */
+export interface ProcessAllOptions {
+  /** Called after each file with the number of files done so far */
+  onProgress?: (done: number, total: number) => void;
+  /** Polled before each file; returning true stops the run */
+  isCancelled?: () => boolean;
+  /** Label of the run in the undo history */
+  label?: string;
+}
+
+/**
+ * Outcome of processing many files.
+ */
+export interface ProcessAllResult {
+  /** Number of files processed */
+  processed: number;
+  /** Number of files whose frontmatter was written */
+  updated: number;
+  /** Whether the run was cancelled before all files were processed */
+  cancelled: boolean;
+}
+
+/**
+ * Outcome of applying the changes of a dry run.
+ */
+export interface ApplyPreviewResult extends ProcessAllResult {
+  /** Number of changes left out because the property changed since the preview */
+  skipped: number;
+}
+
+/**
+ * Outcome of a dry run over many files.
+ */
+export interface PreviewAllResult {
+  /** Files whose frontmatter would change */
+  previews: FilePreview[];
+  /** Whether the run was cancelled before all files were checked */
+  cancelled: boolean;
+}
+
+/**
+ * A property to write back to a task line.
+ */
+interface TaskLineEdit {
+  /** Line number of the task */
+  lineNumber: number;
+  /** The task line as parsed; the edit is skipped if the line changed since */
+  line: string;
+  property: TaskProperty;
+  /** New value, or null to remove the property */
+  value: string | null;
+  /** The frontmatter property the edit comes from, and its value */
+  key: string;
+  frontmatterValue: unknown;
+}
+
+/**
+ * What bidirectional mappings found in a file's frontmatter.
+ */
+interface ReverseSync {
+  /** Frontmatter edits to write back to task lines */
+  edits: TaskLineEdit[];
+  /** Keys changed both in the frontmatter and in the task since the last sync */
+  conflicts: string[];
+  /** Keys the tasks must not overwrite this time (written back or in conflict) */
+  skippedKeys: Set<string>;
+}
 
 /**
  * Main processor that coordinates task parsing, operation execution,
@@ -11,10 +152,26 @@ import { updateFrontmatterProperties } from "./frontmatterWriter";
 export class TaskPropertyProcessor {
   private app: App;
   private settings: TaskPropertyPluginSettings;
+  private index: TaskIndex;
+  private history: ChangeHistory;
+  private ownership: OwnershipStore;
 
-  constructor(app: App, settings: TaskPropertyPluginSettings) {
+  /** Conflicts already reported, as "path\nkey" */
+  private reportedConflicts: Set<string> = new Set();
+
+  constructor(
+    app: App,
+    settings: TaskPropertyPluginSettings,
+    index: TaskIndex,
+    history: ChangeHistory,
+    ownership: OwnershipStore
+  ) {
     this.app = app;
     this.settings = settings;
+    this.index = index;
+    this.history = history;
+    this.ownership = ownership;
+    this.index.setParseSignature(this.getParseSignature());
   }
 
   /**
@@ -22,24 +179,121 @@ export class TaskPropertyProcessor {
    */
   updateSettings(settings: TaskPropertyPluginSettings): void {
     this.settings = settings;
+    this.index.setParseSignature(this.getParseSignature());
   }
 
   /**
    * Processes a single file: parses tasks, evaluates mappings and operations,
    * then updates frontmatter properties.
+   * Changes are recorded in the given run of the undo history, or in
+   * the automatic updates run. Returns whether the frontmatter was written.
+   */
+  async processFile(file: TFile, run?: ChangeRun): Promise<boolean> {
+    // Only process markdown files outside excluded folders
+    if (!this.isProcessable(file)) return false;
+
+    // Whether the file is unchanged since its last computed updates
+    let unchanged = this.index.getFresh(file) !== null;
+
+    // Write frontmatter edits of bidirectional mappings back to their tasks first
+    const reverse = await this.getReverseSync(file);
+    if (reverse.edits.length > 0) {
+      const applied = await this.applyTaskEdits(file, reverse.edits);
+      // The property and its task agree again, so the next edit on either side syncs
+      const ownership = this.ownership.forFile(file.path);
+      for (const edit of applied) ownership.markOwned(edit.key, edit.frontmatterValue);
+      this.index.delete(file.path);
+      unchanged = false;
+    }
+    this.reportConflicts(file, reverse.conflicts);
+
+    const updates = await this.computeUpdates(file, reverse.skippedKeys);
+    if (updates === null) return false;
+
+    // Skip the write if neither the file nor the computed values changed
+    const signature = JSON.stringify(updates);
+    const entry = this.index.get(file.path);
+    if (unchanged && entry && entry.updates === signature) return false;
+
+    // Apply all updates
+    let written = false;
+    if (updates.length > 0) {
+      try {
+        const changes = await updateFrontmatterProperties(
+          this.app,
+          file,
+          updates,
+          this.ownership.forFile(file.path)
+        );
+        this.history.record(run ?? this.history.getAutomaticRun(), file.path, changes);
+        triggerUpdated(this.app, file, changes);
+        written = changes.length > 0;
+      } catch (error) {
+        console.error(
+          `Task Property Sync: Error updating frontmatter for ${file.path}:`,
+          error
+        );
+        return false;
+      }
+    }
+
+    if (entry) {
+      entry.updates = signature;
+      this.index.touch(file);
+    }
+    return written;
+  }
+
+  /**
+   * Runs the full pipeline for a file without writing (dry run).
+   * Returns the frontmatter changes processing would make, or null if none.
    */
-  async processFile(file: TFile): Promise<void> {
-    // Only process markdown files
-    if (file.extension !== "md") return;
+  async previewFile(file: TFile): Promise<FilePreview | null> {
+    if (!this.isProcessable(file)) return null;
 
-    // Check if file is in an excluded folder
-    if (this.isExcluded(file)) return;
+    const reverse = await this.getReverseSync(file);
+    const updates = await this.computeUpdates(file, reverse.skippedKeys);
+    if (updates === null || updates.length === 0) return null;
 
-    // Read file content
-    const content = await this.app.vault.read(file);
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+    const changes = getFrontmatterChanges(
+      frontmatter,
+      updates,
+      this.ownership.forFile(file.path)
+    );
+    return changes.length > 0 ? { path: file.path, changes } : null;
+  }
 
-    // Parse all tasks from the file
-    const tasks = parseTasks(content);
+  /**
+   * Evaluates all mappings for a file without writing, and returns the
+   * values they produce by frontmatter property, regardless of what the
+   * note currently holds. Properties without a value are left out.
+   * Returns null if the file isn't processed.
+   */
+  async computeResults(file: TFile): Promise<Record<string, FrontmatterValue> | null> {
+    if (!this.isProcessable(file)) return null;
+
+    const results: Record<string, FrontmatterValue> = {};
+    const updates = await this.computeUpdates(file);
+    if (updates === null) return results;
+
+    for (const change of getFrontmatterChanges({}, updates)) {
+      if (change.newValue !== undefined) results[change.key] = change.newValue;
+    }
+    return results;
+  }
+
+  /**
+   * Parses the tasks of a file and evaluates all mappings and operations.
+   * Returns the frontmatter updates, or null if the file needs no processing.
+   * Updates to the skipped keys (see `getReverseSync`) are left out.
+   */
+  private async computeUpdates(
+    file: TFile,
+    skippedKeys: Set<string> = new Set()
+  ): Promise<FrontmatterUpdate[] | null> {
+    // Parse all tasks from the file (or reuse them from the index)
+    const tasks = await this.getFileTasks(file);
 
     // If no tasks found, skip (unless we have count operations)
     const hasCountOps = this.settings.operationMappings.some(
@@ -48,129 +302,849 @@ export class TaskPropertyProcessor {
         (m.operation === "count_all" ||
           m.operation === "count_done" ||
           m.operation === "count_open" ||
-          m.operation === "percentage_done")
+          m.operation === "count_in_progress" ||
+          m.operation === "count_cancelled" ||
+          m.operation === "percentage_done" ||
+          m.operation === "percentage_done_weighted" ||
+          m.operation === "count_blocked" ||
+          m.operation === "count_actionable")
+    );
+
+    // Mappings reading other notes may find tasks even if this file has none
+    const hasCrossNoteOps = this.settings.operationMappings.some(
+      (m) => m.enabled && (m.source ?? "file") !== "file"
     );
 
-    if (tasks.length === 0 && !hasCountOps) return;
+    // Mappings with a "when no value" policy may need to clear their property
+    const hasEmptyValuePolicies = [
+      ...this.settings.directMappings,
+      ...this.settings.operationMappings,
+    ].some((m) => m.enabled && (m.emptyValuePolicy ?? "keep") !== "keep");
+
+    // Formulas may compute values without tasks (e.g. from frontmatter)
+    const hasFormulas = this.settings.formulaMappings.some((m) => m.enabled);
+
+    // Templated keys written earlier may need to be removed
+    const templatedMappings = [
+      ...this.settings.directMappings,
+      ...this.settings.operationMappings,
+    ].filter((m) => m.enabled && hasTemplateVariables(m.frontmatterKey));
+
+    if (
+      tasks.length === 0 &&
+      !hasCountOps &&
+      !hasCrossNoteOps &&
+      !hasEmptyValuePolicies &&
+      !hasFormulas &&
+      templatedMappings.length === 0
+    ) {
+      return null;
+    }
 
     // Collect all frontmatter updates
-    const updates: Array<{
-      key: string;
-      value: string | number | null;
-      overwriteExisting: boolean;
-    }> = [];
+    const updates: FrontmatterUpdate[] = [];
+
+    // Path, tags and frontmatter for per-mapping file scopes
+    const fileContext = this.getFileContext(file);
 
     // Process direct mappings
     for (const mapping of this.settings.directMappings) {
       if (!mapping.enabled) continue;
+      if (!matchesFileScope(fileContext, mapping.fileScope)) continue;
 
-      const directUpdates = this.processDirectMapping(mapping, tasks);
-      updates.push(...directUpdates);
+      const update = this.processDirectMapping(mapping, tasks);
+      if (update) updates.push(update);
     }
 
     // Process operation mappings
     for (const mapping of this.settings.operationMappings) {
       if (!mapping.enabled) continue;
+      if (!matchesFileScope(fileContext, mapping.fileScope)) continue;
 
-      // Apply conditions to filter tasks before running the operation
-      const filteredTasks = filterTasksByConditions(
-        tasks,
-        mapping.conditions || [],
-        mapping.conditionLogic || "AND"
+      const sourceTasks = await this.collectSourceTasks(
+        file,
+        mapping.source ?? "file",
+        tasks
       );
 
-      const result = executeOperation(
-        filteredTasks,
-        mapping.taskProperty,
-        mapping.operation
+      // Apply sub-task options and section scope before running the operation
+      const scopedTasks = filterTasksBySection(
+        applyHierarchyOptions(sourceTasks, mapping.hierarchy ?? DEFAULT_HIERARCHY_OPTIONS),
+        mapping.sectionScope ?? DEFAULT_SECTION_SCOPE
       );
 
-      if (result !== null) {
-        updates.push({
-          key: mapping.frontmatterKey,
-          value: result,
-          overwriteExisting: mapping.overwriteExisting,
-        });
+      // With {{section}} in the key, the mapping writes one property per heading
+      const groups: Array<{ section: string | null; tasks: ParsedTask[] }> =
+        usesSectionVariable(mapping.frontmatterKey)
+          ? groupTasksBySection(scopedTasks)
+          : [{ section: null, tasks: scopedTasks }];
+      for (const group of groups) {
+        const update = this.processOperationMapping(mapping, group.tasks, group.section);
+        if (update) updates.push(update);
       }
     }
 
-    // Apply all updates
-    if (updates.length > 0) {
-      try {
-        await updateFrontmatterProperties(this.app, file, updates);
-      } catch (error) {
-        console.error(
-          `Task Property Sync: Error updating frontmatter for ${file.path}:`,
-          error
-        );
+    // Process formula mappings; fm("key") sees the results of the mappings above
+    if (hasFormulas) {
+      const frontmatter = applyUpdatesToFrontmatter(
+        fileContext.frontmatter ?? {},
+        updates,
+        this.ownership.forFile(file.path)
+      );
+
+      for (const mapping of this.settings.formulaMappings) {
+        if (!mapping.enabled) continue;
+        if (!matchesFileScope(fileContext, mapping.fileScope)) continue;
+
+        updates.push(this.processFormulaMapping(mapping, tasks, frontmatter));
       }
     }
+
+    // Remove templated keys (e.g. of a renamed heading) that no mapping produced this time
+    const producedKeys = new Set(updates.map((u) => u.key));
+    for (const mapping of [
+      ...this.settings.directMappings,
+      ...this.settings.operationMappings,
+      ...this.settings.formulaMappings,
+    ]) {
+      producedKeys.add(mapping.frontmatterKey);
+    }
+    const ownership = this.ownership.forFile(file.path);
+    for (const mapping of templatedMappings) {
+      if (!matchesFileScope(fileContext, mapping.fileScope)) continue;
+      for (const key of ownership.keys()) {
+        if (producedKeys.has(key) || !matchesKeyTemplate(key, mapping.frontmatterKey)) continue;
+        updates.push({
+          key,
+          value: null,
+          overwriteMode: mapping.overwriteMode,
+          whenEmpty: "delete",
+        });
+        producedKeys.add(key);
+      }
+    }
+
+    return updates.filter((update) => !skippedKeys.has(update.key));
   }
 
   /**
-   * Processes a direct mapping: for each task, extracts the property value.
-   * For direct mappings, we use the "first non-null" value strategy by default,
-   * since a file can contain multiple tasks.
+   * Runs an operation mapping over its tasks: filters them by the
+   * conditions, runs the operation and formats the result. `section`
+   * fills `{{section}}` in the key and value templates. Returns null if
+   * the key template renders an empty variable.
+   */
+  private processOperationMapping(
+    mapping: OperationMapping,
+    tasks: ParsedTask[],
+    section: string | null
+  ): FrontmatterUpdate | null {
+    const now = new Date();
+    const options = {
+      excludeCancelledFromPercentage: this.settings.excludeCancelledFromPercentage,
+      statuses: this.settings.statuses,
+    };
+    const group = this.getConditionGroup(mapping);
+    const filteredTasks = group
+      ? filterTasksByConditions(tasks, group, now, this.settings.statuses)
+      : [];
+
+    const progressOutput = mapping.progressOutput ?? DEFAULT_PROGRESS_OUTPUT;
+    const operationResult =
+      isProgressOperation(mapping.operation) &&
+      progressOutput.format !== "number" &&
+      filteredTasks.length > 0
+        ? formatProgress(
+            computeProgress(filteredTasks, mapping.operation, options),
+            progressOutput
+          )
+        : executeOperation(filteredTasks, mapping.taskProperty, mapping.operation, options);
+
+    // Dates in lists are formatted after sorting, so they sort chronologically
+    const dateOutput = mapping.dateOutput ?? DEFAULT_DATE_OUTPUT;
+    const result = applyDateOutput(
+      formatListResult(
+        operationResult,
+        mapping.listOutput ?? LEGACY_LIST_OUTPUT,
+        isDateProperty(mapping.taskProperty)
+          ? (value) => formatDateText(value, dateOutput, now)
+          : undefined
+      ),
+      dateOutput,
+      now
+    );
+
+    const context: TemplateContext = { tasks: filteredTasks, value: result, section, options };
+    const key = renderKeyTemplate(mapping.frontmatterKey, context);
+    if (key === null) return null;
+    if (result === null) return getEmptyValueUpdate(mapping, key);
+
+    return {
+      key,
+      value: applyValueTemplate(mapping.valueTemplate, result, context),
+      overwriteMode: mapping.overwriteMode,
+    };
+  }
+
+  /**
+   * Evaluates a formula mapping against the tasks and frontmatter of a file.
+   * Formulas that don't compile are skipped (errors are shown in settings).
+   */
+  private processFormulaMapping(
+    mapping: FormulaMapping,
+    tasks: ParsedTask[],
+    frontmatter: Record<string, unknown>
+  ): FrontmatterUpdate {
+    const { expression } = compileFormula(mapping.formula);
+    const now = new Date();
+    const result = expression
+      ? applyDateOutput(
+          toFormulaTypedValue(
+            evaluateFormula(expression, {
+              tasks,
+              frontmatter,
+              now,
+              options: {
+                excludeCancelledFromPercentage:
+                  this.settings.excludeCancelledFromPercentage,
+                statuses: this.settings.statuses,
+              },
+            })
+          ),
+          mapping.dateOutput ?? DEFAULT_DATE_OUTPUT,
+          now
+        )
+      : null;
+
+    if (result === null) return getEmptyValueUpdate(mapping);
+    return {
+      key: mapping.frontmatterKey,
+      value: result,
+      overwriteMode: mapping.overwriteMode,
+    };
+  }
+
+  /**
+   * Processes a direct mapping: extracts the property value of the task
+   * selected by its selection rule (by default the first task with a value,
+   * since a file can contain multiple tasks).
    * (The operations engine handles aggregate operations.)
+   * Returns null if the key template renders an empty variable.
    */
   private processDirectMapping(
     mapping: DirectMapping,
     tasks: ParsedTask[]
-  ): Array<{
-    key: string;
-    value: string | number | null;
-    overwriteExisting: boolean;
-  }> {
-    const updates: Array<{
-      key: string;
-      value: string | number | null;
-      overwriteExisting: boolean;
-    }> = [];
-
-    // For direct mappings, collect the first non-null value
-    for (const task of tasks) {
-      const value = getTaskPropertyValue(task, mapping.taskProperty);
-      if (value !== null && value !== "") {
-        updates.push({
-          key: mapping.frontmatterKey,
-          value: value,
-          overwriteExisting: mapping.overwriteExisting,
-        });
-        break; // Only take the first value for direct mappings
+  ): FrontmatterUpdate | null {
+    const task = this.findMappedTask(mapping, tasks);
+    const value = task ? getDirectMappingValue(mapping, task) : null;
+
+    const context: TemplateContext = {
+      tasks,
+      value,
+      section: task ? getTaskPropertyValue(task, "section") : null,
+      options: {
+        excludeCancelledFromPercentage: this.settings.excludeCancelledFromPercentage,
+        statuses: this.settings.statuses,
+      },
+    };
+    const key = renderKeyTemplate(mapping.frontmatterKey, context);
+    if (key === null) return null;
+    if (value === null) return getEmptyValueUpdate(mapping, key);
+
+    return {
+      key,
+      value: applyValueTemplate(mapping.valueTemplate, value, context),
+      overwriteMode: mapping.overwriteMode,
+    };
+  }
+
+  /**
+   * Works out which frontmatter properties of bidirectional direct mappings
+   * were edited since the plugin last synced them, by comparing the
+   * metadata cache with the value the plugin last wrote:
+   * - only the property changed: the edit is written back to the task
+   * - only the task changed: the task wins, as for other mappings
+   * - both changed (to different values): a conflict; neither is updated
+   * Properties the plugin never synced are left to the tasks.
+   */
+  private async getReverseSync(file: TFile): Promise<ReverseSync> {
+    const sync: ReverseSync = { edits: [], conflicts: [], skippedKeys: new Set() };
+
+    const mappings = this.settings.directMappings.filter(
+      (m) =>
+        m.enabled &&
+        m.bidirectional &&
+        isWritableProperty(m.taskProperty) &&
+        isReversibleDateOutput(m.dateOutput) &&
+        !m.valueTemplate &&
+        !hasTemplateVariables(m.frontmatterKey)
+    );
+    if (mappings.length === 0) return sync;
+
+    const fileContext = this.getFileContext(file);
+    const frontmatter = fileContext.frontmatter;
+    if (!frontmatter) return sync;
+
+    const tasks = await this.getFileTasks(file);
+    const ownership = this.ownership.forFile(file.path);
+
+    for (const mapping of mappings) {
+      const key = mapping.frontmatterKey;
+      if (!matchesFileScope(fileContext, mapping.fileScope)) continue;
+      if (!ownership.has(key)) continue;
+
+      // The task the mapping reads from, or the first task if none has a value yet
+      const task =
+        this.findMappedTask(mapping, tasks) ??
+        ((mapping.taskSelection ?? DEFAULT_TASK_SELECTION).rule === "first_with_value"
+          ? tasks[0]
+          : undefined);
+      if (!task) continue;
+
+      const current: unknown = frontmatter[key];
+      const typed = getDirectMappingValue(mapping, task);
+      const synced = typed === null ? null : typed.value;
+
+      if (ownership.isOwned(key, current)) continue;
+      if (JSON.stringify(current) === JSON.stringify(synced)) continue;
+
+      if (!ownership.isOwned(key, synced)) {
+        sync.conflicts.push(key);
+        sync.skippedKeys.add(key);
+        continue;
       }
+
+      // Values the task can't hold (e.g. "next week") are replaced by the task's value
+      const value = toTaskValue(mapping.taskProperty, current);
+      if (value === undefined) continue;
+
+      sync.edits.push({
+        lineNumber: task.lineNumber,
+        line: task.line,
+        property: mapping.taskProperty,
+        value,
+        key,
+        frontmatterValue: current,
+      });
+      sync.skippedKeys.add(key);
     }
 
-    return updates;
+    return sync;
   }
 
   /**
-   * Processes all markdown files in the vault.
+   * Returns the task a direct mapping reads its value from.
    */
-  async processAllFiles(): Promise<number> {
-    const files = this.app.vault.getMarkdownFiles();
-    let processedCount = 0;
+  private findMappedTask(mapping: DirectMapping, tasks: ParsedTask[]): ParsedTask | null {
+    return selectTask(
+      tasks,
+      mapping.taskSelection ?? DEFAULT_TASK_SELECTION,
+      mapping.taskProperty,
+      this.settings.statuses
+    );
+  }
+
+  /**
+   * Writes properties back to task lines. Lines that changed since they
+   * were parsed are left alone. Returns the edits that were applied.
+   */
+  private async applyTaskEdits(file: TFile, edits: TaskLineEdit[]): Promise<TaskLineEdit[]> {
+    const applied: TaskLineEdit[] = [];
+    await this.app.vault.process(file, (content) => {
+      applied.length = 0;
+      const original = content.split("\n");
+      const lines = original.slice();
 
-    for (const file of files) {
-      if (!this.isExcluded(file)) {
-        await this.processFile(file);
-        processedCount++;
+      for (const edit of edits) {
+        if (original[edit.lineNumber] !== edit.line) continue;
+
+        const line = lines[edit.lineNumber];
+        const eol = line.endsWith("\r") ? "\r" : "";
+        const updated = setTaskLineProperty(
+          line.slice(0, line.length - eol.length),
+          edit.property,
+          edit.value,
+          this.settings.taskFormat
+        );
+        if (updated !== null) {
+          lines[edit.lineNumber] = updated + eol;
+          applied.push(edit);
+        }
+      }
+
+      return lines.join("\n");
+    });
+    return applied;
+  }
+
+  /**
+   * Tells the user about new sync conflicts of a file, once per conflict.
+   */
+  private reportConflicts(file: TFile, keys: string[]): void {
+    const prefix = `${file.path}\n`;
+
+    // Forget resolved conflicts, so they are reported again if they come back
+    for (const id of Array.from(this.reportedConflicts)) {
+      if (id.startsWith(prefix) && !keys.includes(id.slice(prefix.length))) {
+        this.reportedConflicts.delete(id);
       }
     }
 
-    return processedCount;
+    for (const key of keys) {
+      if (this.reportedConflicts.has(prefix + key)) continue;
+      this.reportedConflicts.add(prefix + key);
+      new Notice(
+        `"${key}" in ${file.path} was changed both in the properties and in its task since the last sync. Neither was updated; make them match to sync again.`
+      );
+    }
   }
 
   /**
-   * Checks if a file is in an excluded folder.
+   * Processes all markdown files in the vault, a few at a time.
+   * Files unchanged since the last run are not read again, and
+   * frontmatter is only written when the computed values changed.
    */
-  private isExcluded(file: TFile): boolean {
-    const filePath = file.path;
-    for (const folder of this.settings.excludedFolders) {
-      const normalizedFolder = folder.endsWith("/") ? folder : folder + "/";
-      if (filePath.startsWith(normalizedFolder)) {
-        return true;
+  async processAllFiles(options: ProcessAllOptions = {}): Promise<ProcessAllResult> {
+    return this.processFiles(this.getProcessableFiles(), options);
+  }
+
+  /**
+   * Processes the given files, a few at a time.
+   */
+  async processFiles(
+    files: TFile[],
+    options: ProcessAllOptions = {}
+  ): Promise<ProcessAllResult> {
+    const result: ProcessAllResult = { processed: 0, updated: 0, cancelled: false };
+    const run = this.history.startRun(options.label ?? "Process files");
+
+    result.cancelled = await this.forEachFile(
+      files,
+      async (file) => {
+        if (await this.processFile(file, run)) result.updated++;
+        result.processed++;
+      },
+      options
+    );
+    await this.index.save();
+
+    return result;
+  }
+
+  /**
+   * Runs a dry run over all markdown files in the vault and collects
+   * the frontmatter changes processing them would make.
+   */
+  async previewAllFiles(options: ProcessAllOptions = {}): Promise<PreviewAllResult> {
+    const previews: FilePreview[] = [];
+
+    const cancelled = await this.forEachFile(
+      this.getProcessableFiles(),
+      async (file) => {
+        const preview = await this.previewFile(file);
+        if (preview) previews.push(preview);
+      },
+      options
+    );
+    await this.index.save();
+
+    previews.sort((a, b) => a.path.localeCompare(b.path));
+    return { previews, cancelled };
+  }
+
+  /**
+   * Writes the changes of a dry run exactly as they were previewed,
+   * without computing them again. Changes to properties edited since the
+   * preview are skipped.
+   */
+  async applyPreviews(
+    previews: FilePreview[],
+    options: ProcessAllOptions = {}
+  ): Promise<ApplyPreviewResult> {
+    const result: ApplyPreviewResult = { processed: 0, updated: 0, cancelled: false, skipped: 0 };
+    const run = this.history.startRun(options.label ?? "Apply preview");
+
+    const changesByPath = new Map(previews.map((p) => [p.path, p.changes]));
+    const files = previews
+      .map((p) => this.app.vault.getAbstractFileByPath(p.path))
+      .filter((file): file is TFile => file instanceof TFile);
+    result.skipped += previews
+      .filter((p) => !files.some((f) => f.path === p.path))
+      .reduce((n, p) => n + p.changes.length, 0);
+
+    result.cancelled = await this.forEachFile(
+      files,
+      async (file) => {
+        const { applied, skipped } = await applyFrontmatterChanges(
+          this.app,
+          file,
+          changesByPath.get(file.path) ?? [],
+          this.ownership.forFile(file.path)
+        );
+        this.history.record(run, file.path, applied);
+        triggerUpdated(this.app, file, applied);
+        result.skipped += skipped;
+        if (applied.length > 0) result.updated++;
+        result.processed++;
+      },
+      options
+    );
+
+    return result;
+  }
+
+  /**
+   * Runs a callback for each file with bounded concurrency, reporting
+   * progress. Errors are logged per file. Returns whether the run was cancelled.
+   */
+  private async forEachFile(
+    files: TFile[],
+    callback: (file: TFile) => Promise<void>,
+    options: ProcessAllOptions
+  ): Promise<boolean> {
+    let next = 0;
+    let done = 0;
+    let cancelled = false;
+
+    const worker = async (): Promise<void> => {
+      while (next < files.length) {
+        if (options.isCancelled?.()) {
+          cancelled = true;
+          return;
+        }
+
+        const file = files[next++];
+        try {
+          await callback(file);
+        } catch (error) {
+          console.error(
+            `Task Property Sync: Error processing file ${file.path}:`,
+            error
+          );
+        }
+        done++;
+        options.onProgress?.(done, files.length);
+      }
+    };
+
+    const workers: Promise<void>[] = [];
+    for (let i = 0; i < Math.min(PROCESS_ALL_CONCURRENCY, files.length); i++) {
+      workers.push(worker());
+    }
+    await Promise.all(workers);
+
+    return cancelled;
+  }
+
+  /**
+   * Returns the tasks of a file, from the index if the file is unchanged.
+   * Files whose content is unchanged (same hash) keep their parsed tasks.
+   */
+  private async getFileTasks(file: TFile): Promise<ParsedTask[]> {
+    const fresh = this.index.getFresh(file);
+    if (fresh) return fresh.tasks;
+
+    const content = await this.app.vault.cachedRead(file);
+    const hash = hashContent(content);
+    const previous = this.index.get(file.path);
+
+    const tasks =
+      previous && previous.hash === hash
+        ? previous.tasks
+        : parseTasks(content, {
+            format: this.settings.taskFormat,
+            statuses: this.settings.statuses,
+            path: file.path,
+          });
+
+    this.index.set(file.path, {
+      mtime: file.stat.mtime,
+      size: file.stat.size,
+      hash,
+      tasks,
+      updates: null,
+    });
+    return tasks;
+  }
+
+  /**
+   * Signature of the settings that affect parsing; the index is dropped
+   * when it changes.
+   */
+  private getParseSignature(): string {
+    return JSON.stringify({
+      format: this.settings.taskFormat,
+      statuses: this.settings.statuses,
+    });
+  }
+
+  /**
+   * Collects the tasks of all files in a mapping's source, starting with the
+   * processed file itself. Excluded files do not contribute tasks.
+   */
+  private async collectSourceTasks(
+    file: TFile,
+    source: TaskSource,
+    ownTasks: ParsedTask[]
+  ): Promise<ParsedTask[]> {
+    if (source === "file") return ownTasks;
+
+    const tasks = ownTasks.slice();
+    for (const sourceFile of this.getSourceFiles(file, source)) {
+      if (this.isExcluded(sourceFile)) continue;
+
+      tasks.push(...(await this.getFileTasks(sourceFile)));
+    }
+    return tasks;
+  }
+
+  /**
+   * Resolves the other markdown files of a task source, using the
+   * metadata cache's resolved links.
+   */
+  private getSourceFiles(file: TFile, source: TaskSource): TFile[] {
+    const resolvedLinks = this.app.metadataCache.resolvedLinks;
+    let paths: string[] = [];
+
+    switch (source) {
+      case "outgoing_links":
+        paths = Object.keys(resolvedLinks[file.path] ?? {});
+        break;
+      case "backlinks":
+        paths = Object.keys(resolvedLinks).filter(
+          (sourcePath) => resolvedLinks[sourcePath][file.path] !== undefined
+        );
+        break;
+      case "folder":
+        paths = (file.parent?.children ?? []).map((child) => child.path);
+        break;
+    }
+
+    return this.toMarkdownFiles(paths, file);
+  }
+
+  /**
+   * Returns the files whose cross-note mappings read tasks from the given
+   * file, i.e. the notes that need re-processing when it changes.
+   */
+  getDependentFiles(file: TFile): TFile[] {
+    const sources = new Set<TaskSource>();
+    for (const mapping of this.settings.operationMappings) {
+      if (mapping.enabled) sources.add(mapping.source ?? "file");
+    }
+
+    const resolvedLinks = this.app.metadataCache.resolvedLinks;
+    const paths = new Set<string>();
+
+    // Notes linking here read this file through their outgoing links
+    if (sources.has("outgoing_links")) {
+      for (const sourcePath of Object.keys(resolvedLinks)) {
+        if (resolvedLinks[sourcePath][file.path] !== undefined) paths.add(sourcePath);
+      }
+    }
+    // Notes this file links to read it as a backlink
+    if (sources.has("backlinks")) {
+      for (const target of Object.keys(resolvedLinks[file.path] ?? {})) {
+        paths.add(target);
       }
     }
-    return false;
+    if (sources.has("folder")) {
+      for (const child of file.parent?.children ?? []) paths.add(child.path);
+    }
+
+    return this.toMarkdownFiles(Array.from(paths), file).filter(
+      (f) => !this.isExcluded(f)
+    );
+  }
+
+  /**
+   * Resolves paths to markdown files, leaving out the given file.
+   */
+  private toMarkdownFiles(paths: string[], exclude: TFile): TFile[] {
+    const files: TFile[] = [];
+    for (const path of paths) {
+      if (path === exclude.path) continue;
+      const target = this.app.vault.getAbstractFileByPath(path);
+      if (target instanceof TFile && target.extension === "md") {
+        files.push(target);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Returns the condition group that filters tasks for a mapping: the
+   * builder's group, or the compiled text query in query mode. Returns
+   * null for a query with errors, which matches no tasks (the errors are
+   * shown in settings).
+   */
+  private getConditionGroup(mapping: OperationMapping): ConditionGroup | null {
+    if (mapping.filterMode === "query") {
+      return compileQueryFilter(mapping.query || "");
+    }
+    return mapping.conditionGroup;
+  }
+
+  /**
+   * Whether any enabled operation mapping has a condition with a relative
+   * date value (e.g. "today"), any enabled formula uses the current date,
+   * or any enabled mapping writes relative dates ("in 3 days"), so that
+   * results can change when the date rolls over.
+   */
+  usesRelativeDates(): boolean {
+    const writesRelativeDates = [
+      ...this.settings.directMappings,
+      ...this.settings.operationMappings,
+      ...this.settings.formulaMappings,
+    ].some((m) => m.enabled && m.dateOutput?.format === "relative");
+    if (writesRelativeDates) return true;
+
+    const operationsUseDates = this.settings.operationMappings.some(
+      (m) => {
+        const group = this.getConditionGroup(m);
+        return (
+          m.enabled &&
+          group !== null &&
+          collectConditions(group).some(
+            (c) => isDateProperty(c.property) && isRelativeDate(c.value)
+          )
+        );
+      }
+    );
+    if (operationsUseDates) return true;
+
+    return this.settings.formulaMappings.some((m) => {
+      if (!m.enabled) return false;
+      const { expression } = compileFormula(m.formula);
+      return expression !== null && usesCurrentDate(expression);
+    });
+  }
+
+  /**
+   * Collects the path, tags and frontmatter of a file from the metadata cache.
+   */
+  private getFileContext(file: TFile): FileContext {
+    const cache = this.app.metadataCache.getFileCache(file);
+    return {
+      path: file.path,
+      tags: cache ? getAllTags(cache) ?? [] : [],
+      frontmatter: cache?.frontmatter ?? null,
+    };
+  }
+
+  /**
+   * Returns the markdown files in the vault outside excluded folders.
+   */
+  private getProcessableFiles(): TFile[] {
+    return this.app.vault
+      .getMarkdownFiles()
+      .filter((file) => !this.isExcluded(file));
+  }
+
+  /**
+   * Whether a file is a markdown file outside excluded folders.
+   */
+  private isProcessable(file: TFile): boolean {
+    return file.extension === "md" && !this.isExcluded(file);
+  }
+
+  /**
+   * Checks if a file matches an excluded folder or glob pattern.
+   */
+  private isExcluded(file: TFile): boolean {
+    return this.settings.excludedFolders.some((pattern) =>
+      matchesPathPattern(file.path, pattern)
+    );
+  }
+}
+
+/**
+ * The value a direct mapping writes for a task, after its date output.
+ */
+function getDirectMappingValue(mapping: DirectMapping, task: ParsedTask): TypedValue | null {
+  return applyDateOutput(
+    getTypedTaskPropertyValue(task, mapping.taskProperty),
+    mapping.dateOutput ?? DEFAULT_DATE_OUTPUT
+  );
+}
+
+/**
+ * Whether dates written with these output options can be read back into
+ * a task: only unshifted date and date & time properties can.
+ */
+function isReversibleDateOutput(options: DateOutputOptions | undefined): boolean {
+  if (!options) return true;
+  return (
+    (options.format === "date" || options.format === "datetime") &&
+    options.offset.trim() === ""
+  );
+}
+
+/**
+ * Converts a frontmatter value into a task property value: YYYY-MM-DD for
+ * dates (the time of date & time values is dropped) and a priority name
+ * for priorities. Empty values give null (remove from the task); values
+ * that don't fit the property give undefined.
+ */
+function toTaskValue(property: string, value: unknown): string | null | undefined {
+  if (value === undefined || value === null || value === "") return null;
+  if (typeof value !== "string") return undefined;
+
+  if (isDateProperty(property)) {
+    const match = value.match(/^(\d{4}-\d{2}-\d{2})/);
+    return match ? match[1] : undefined;
+  }
+
+  const priority = value.trim().toLowerCase();
+  if (priority === "none") return null;
+  return ["highest", "high", "medium", "low", "lowest"].includes(priority)
+    ? priority
+    : undefined;
+}
+
+/**
+ * Renders a mapping's value template as text, or returns the result itself
+ * if the mapping has no template.
+ */
+function applyValueTemplate(
+  template: string | undefined,
+  result: TypedValue,
+  context: TemplateContext
+): TypedValue {
+  if (!template) return result;
+  return { type: "string", value: renderTemplate(template, context) };
+}
+
+/**
+ * Builds the update for a mapping that found no value, following its
+ * "when no value" policy. `key` is the rendered key of templated keys.
+ * The policy only clears or replaces a property that is already there, so
+ * notes that never had the property don't get it.
+ */
+function getEmptyValueUpdate(
+  mapping: DirectMapping | OperationMapping | FormulaMapping,
+  key: string = mapping.frontmatterKey
+): FrontmatterUpdate {
+  const policy = mapping.emptyValuePolicy ?? "keep";
+  return {
+    key,
+    value: policy === "default" ? parseLiteralValue(mapping.emptyValueDefault ?? "") : null,
+    overwriteMode: mapping.overwriteMode,
+    whenEmpty: policy === "default" ? "keep" : policy,
+    onlyIfPresent: policy !== "keep",
+  };
+}
+
+/**
+ * Types a default value typed in the settings: numbers and true / false
+ * are written as such, anything else as text.
+ */
+function parseLiteralValue(text: string): TypedValue {
+  const trimmed = text.trim();
+  if (trimmed === "true" || trimmed === "false") {
+    return { type: "boolean", value: trimmed === "true" };
+  }
+  if (trimmed !== "" && !isNaN(Number(trimmed))) {
+    return { type: "number", value: Number(trimmed) };
   }
+  return { type: "string", value: text };
 }
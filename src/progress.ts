@@ -0,0 +1,95 @@
+import { ProgressLabel, ProgressOutputOptions, TypedValue } from "./types";
+import { Progress } from "./operations";
+
+const BAR_FILLED = "▰";
+const BAR_EMPTY = "▱";
+
+/** A label line such as "1-99: in progress" or "100: complete" */
+const LABEL_LINE_REGEX = /^(\d+(?:\.\d+)?)\s*(?:-\s*(\d+(?:\.\d+)?))?\s*:\s*(.+)$/;
+
+/**
+ * Formats a progress result with the progress output options of a
+ * mapping. Returns null for the "label" format when no label range
+ * matches the percentage.
+ */
+export function formatProgress(
+  progress: Progress,
+  options: ProgressOutputOptions
+): TypedValue | null {
+  switch (options.format) {
+    case "bar":
+      return { type: "string", value: formatProgressBar(progress.percentage, options.barLength) };
+    case "fraction":
+      return { type: "string", value: `${progress.done}/${progress.total}` };
+    case "percent":
+      return {
+        type: "string",
+        value: `${progress.percentage.toFixed(clampInt(options.decimals, 0, 10))}%`,
+      };
+    case "label": {
+      const percentage = roundForLabel(progress.percentage);
+      const match = options.labels.find(
+        (l) => percentage >= l.min && percentage <= l.max
+      );
+      return match ? { type: "string", value: match.label } : null;
+    }
+    default:
+      return { type: "number", value: Math.round(progress.percentage) };
+  }
+}
+
+/**
+ * Formats a percentage as a text progress bar followed by the rounded
+ * percentage, e.g. "▰▰▰▱▱ 60%". Segments are only filled once reached,
+ * so the bar is full only when everything is done.
+ */
+function formatProgressBar(percentage: number, length: number): string {
+  const segments = clampInt(length, 1, 100);
+  const filled = Math.min(segments, Math.floor((percentage * segments) / 100));
+  const bar = BAR_FILLED.repeat(filled) + BAR_EMPTY.repeat(segments - filled);
+  return `${bar} ${Math.round(percentage)}%`;
+}
+
+/**
+ * Rounds a percentage for matching label ranges. Only no progress gives 0
+ * and only full progress gives 100, so 0.4% is 1 and 99.6% is 99.
+ */
+function roundForLabel(percentage: number): number {
+  if (percentage > 0 && percentage < 1) return 1;
+  if (percentage > 99 && percentage < 100) return 99;
+  return Math.round(percentage);
+}
+
+/**
+ * Rounds a number setting and keeps it within a range.
+ */
+function clampInt(value: number, min: number, max: number): number {
+  const rounded = Math.round(value);
+  if (isNaN(rounded)) return min;
+  return Math.min(max, Math.max(min, rounded));
+}
+
+/**
+ * Parses "min-max: label" lines (or "value: label" for a single
+ * percentage) into progress labels. Lines that don't match are skipped.
+ */
+export function parseProgressLabels(text: string): ProgressLabel[] {
+  const labels: ProgressLabel[] = [];
+  for (const line of text.split("\n")) {
+    const match = line.trim().match(LABEL_LINE_REGEX);
+    if (!match) continue;
+    const min = parseFloat(match[1]);
+    const max = match[2] !== undefined ? parseFloat(match[2]) : min;
+    labels.push({ min, max, label: match[3].trim() });
+  }
+  return labels;
+}
+
+/**
+ * Formats progress labels as "min-max: label" lines.
+ */
+export function formatProgressLabels(labels: ProgressLabel[]): string {
+  return labels
+    .map((l) => (l.min === l.max ? `${l.min}: ${l.label}` : `${l.min}-${l.max}: ${l.label}`))
+    .join("\n");
+}
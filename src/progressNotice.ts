@@ -0,0 +1,51 @@
+import { Notice } from "obsidian";
+
+/**
+ * A notice that stays open while a long-running job runs, shows its
+ * progress and offers a cancel button.
+ */
+export class ProgressNotice {
+  private notice: Notice;
+  private label: string;
+  private cancelled = false;
+
+  constructor(label: string) {
+    this.label = label;
+    this.notice = new Notice(label, 0);
+  }
+
+  /**
+   * Whether the user pressed the cancel button.
+   */
+  isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  /**
+   * Updates the progress shown in the notice.
+   */
+  setProgress(done: number, total: number): void {
+    const fragment = document.createDocumentFragment();
+    fragment.createDiv({ text: `${this.label} ${done} / ${total}` });
+    const button = fragment.createEl("button", {
+      text: this.cancelled ? "Cancelling..." : "Cancel",
+      cls: "tpp-progress-cancel",
+    });
+    button.disabled = this.cancelled;
+    button.addEventListener("click", (event) => {
+      // Clicking a notice hides it; keep it open until the job stops
+      event.stopPropagation();
+      this.cancelled = true;
+      button.setText("Cancelling...");
+      button.disabled = true;
+    });
+    this.notice.setMessage(fragment);
+  }
+
+  /**
+   * Closes the notice.
+   */
+  hide(): void {
+    this.notice.hide();
+  }
+}
@@ -0,0 +1,276 @@
+import {
+  Condition,
+  ConditionGroup,
+  ConditionOperator,
+  TaskProperty,
+} from "./types";
+import { isRelativeDate } from "./dateUtils";
+import { PRIORITY_ORDER } from "./ordering";
+
+/**
+ * A problem found while parsing a query line.
+ */
+export interface QueryError {
+  /** 1-based line number in the query text */
+  line: number;
+  message: string;
+}
+
+/**
+ * Result of compiling a query: the condition group that all lines compile
+ * into (combined with AND, like Tasks plugin queries) and any parse errors.
+ */
+export interface CompiledQuery {
+  group: ConditionGroup;
+  errors: QueryError[];
+}
+
+/**
+ * Date fields as named in Tasks plugin queries.
+ */
+const DATE_FIELDS: Record<string, TaskProperty> = {
+  due: "due_date",
+  scheduled: "scheduled_date",
+  start: "start_date",
+  starts: "start_date",
+  created: "created_date",
+  done: "done_date",
+};
+
+/**
+ * Query keywords for date comparisons and the matching condition operators.
+ */
+const DATE_OPERATORS: Record<string, ConditionOperator> = {
+  before: "less_than",
+  after: "greater_than",
+  on: "equals",
+  "on or before": "less_or_equal",
+  "on or after": "greater_or_equal",
+};
+
+const STATUS_TYPES = ["TODO", "IN_PROGRESS", "DONE", "CANCELLED", "NON_TASK"];
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Compiles a Tasks-plugin-style query into a condition group.
+ *
+ * Each non-empty line is one filter; all filters must match. Lines starting
+ * with '#' are comments. Supported filters:
+ * - `done`, `not done`
+ * - `has due date`, `no scheduled date`, ... (due, scheduled, start, created, done)
+ * - `due before tomorrow`, `scheduled on or after 2025-04-01`, `starts after today+7d`,
+ *   `due today` (same as `due on today`)
+ * - `priority is high`, `priority is above medium`, `priority is not none`
+ * - `description includes meeting`, `description does not include optional`
+ * - `tags include #work`, `tags do not include #someday`, `has tags`, `no tags`
+ * - `status.type is IN_PROGRESS`, `status.name includes review`
+ * - `heading includes sprint`, `heading does not include done`
+ * - `is recurring`, `is not recurring`
+ * Text filters (`includes`) ignore case, as in the Tasks plugin.
+ */
+export function compileQuery(query: string): CompiledQuery {
+  const group: ConditionGroup = {
+    id: "query",
+    logic: "AND",
+    negate: false,
+    conditions: [],
+    groups: [],
+  };
+  const errors: QueryError[] = [];
+
+  const lines = query.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === "" || line.startsWith("#")) continue;
+
+    const compiled = compileLine(line, `query-${i + 1}`);
+    if (typeof compiled === "string") {
+      errors.push({ line: i + 1, message: compiled });
+    } else if (isCondition(compiled)) {
+      group.conditions.push(compiled);
+    } else {
+      group.groups.push(compiled);
+    }
+  }
+
+  return { group, errors };
+}
+
+/**
+ * Compiles a query into the condition group tasks are filtered by, or
+ * null if the query has errors: a query that can't be read matches no
+ * tasks rather than all of them.
+ */
+export function compileQueryFilter(query: string): ConditionGroup | null {
+  const { group, errors } = compileQuery(query);
+  return errors.length > 0 ? null : group;
+}
+
+/**
+ * Compiles a single query line into a condition or group.
+ * Returns an error message if the line cannot be parsed.
+ */
+function compileLine(
+  line: string,
+  id: string
+): Condition | ConditionGroup | string {
+  const lower = line.toLowerCase();
+  let match: RegExpMatchArray | null;
+
+  // done / not done
+  if (lower === "not done") return notDoneGroup(id, false);
+  if (lower === "done") return notDoneGroup(id, true);
+
+  // is recurring / is not recurring
+  if (lower === "is recurring") return condition(id, "recurrence", "is_not_empty");
+  if (lower === "is not recurring") return condition(id, "recurrence", "is_empty");
+
+  // has tags / no tags
+  if (lower === "has tags") return condition(id, "tags", "is_not_empty");
+  if (lower === "no tags") return condition(id, "tags", "is_empty");
+
+  // has due date / no due date
+  if ((match = lower.match(/^(has|no) (\w+) date$/))) {
+    const property = DATE_FIELDS[match[2]];
+    if (!property) return `Unknown date field "${match[2]}".`;
+    return condition(id, property, match[1] === "has" ? "is_not_empty" : "is_empty");
+  }
+
+  // due before tomorrow / scheduled on or after 2025-04-01 / due today
+  if ((match = lower.match(/^(\w+) (?:(before|after|on or before|on or after|on) )?(.+)$/))) {
+    const property = DATE_FIELDS[match[1]];
+    if (property) {
+      const date = match[3].trim();
+      if (!DATE_REGEX.test(date) && !isRelativeDate(date)) {
+        return `Invalid date "${date}". Use YYYY-MM-DD or a relative date such as today or today+7d.`;
+      }
+      // Without a comparison, the date must match ("due today" = "due on today")
+      return condition(id, property, DATE_OPERATORS[match[2] ?? "on"], date);
+    }
+  }
+
+  // priority is high / priority is above medium / priority is not none
+  if ((match = lower.match(/^priority is (above |below |not )?(\w+)$/))) {
+    return compilePriority(id, (match[1] || "").trim(), match[2]);
+  }
+
+  // description includes meeting / description does not include optional
+  if ((match = line.match(/^description (includes|does not include) (.+)$/i))) {
+    const operator = match[1].toLowerCase() === "includes"
+      ? "contains_ignore_case"
+      : "not_contains_ignore_case";
+    return condition(id, "description", operator, match[2].trim());
+  }
+
+  // tags include #work / tag includes #work / tags do not include #someday
+  if ((match = line.match(/^tags? (includes?|do not include|does not include) (.+)$/i))) {
+    const negated = match[1].toLowerCase().includes("not");
+    return condition(id, "tags", negated ? "not_has_tag" : "has_tag", match[2].trim());
+  }
+
+  // status.type is IN_PROGRESS / status.type is not DONE
+  if ((match = line.match(/^status\.type is (not )?(\w+)$/i))) {
+    const type = match[2].toUpperCase();
+    if (!STATUS_TYPES.includes(type)) {
+      return `Unknown status type "${match[2]}". Use one of ${STATUS_TYPES.join(", ")}.`;
+    }
+    return condition(id, "status_type", match[1] ? "not_equals" : "equals", type);
+  }
+
+  // status.name includes review / status.name does not include review
+  if ((match = line.match(/^status\.name (includes|does not include) (.+)$/i))) {
+    const operator = match[1].toLowerCase() === "includes"
+      ? "contains_ignore_case"
+      : "not_contains_ignore_case";
+    return condition(id, "status_name", operator, match[2].trim());
+  }
+
+  // heading includes sprint / heading does not include done
+  if ((match = line.match(/^heading (includes|does not include) (.+)$/i))) {
+    const operator = match[1].toLowerCase() === "includes"
+      ? "contains_ignore_case"
+      : "not_contains_ignore_case";
+    return condition(id, "section", operator, match[2].trim());
+  }
+
+  return `Unrecognised filter "${line}".`;
+}
+
+/**
+ * Builds the group for "not done" (status type TODO or IN_PROGRESS), or for
+ * "done" when negated.
+ */
+function notDoneGroup(id: string, negate: boolean): ConditionGroup {
+  return {
+    id,
+    logic: "OR",
+    negate,
+    conditions: [
+      condition(`${id}-todo`, "status_type", "equals", "TODO"),
+      condition(`${id}-in-progress`, "status_type", "equals", "IN_PROGRESS"),
+    ],
+    groups: [],
+  };
+}
+
+/**
+ * Compiles a priority filter. "above"/"below" expand to the matching levels.
+ */
+function compilePriority(
+  id: string,
+  modifier: string,
+  level: string
+): Condition | ConditionGroup | string {
+  const index = PRIORITY_ORDER.indexOf(level);
+  if (index === -1) {
+    return `Unknown priority "${level}". Use one of ${PRIORITY_ORDER.join(", ")}.`;
+  }
+
+  if (modifier === "" || modifier === "not") {
+    const negated = modifier === "not";
+    if (level === "none") {
+      return condition(id, "priority", negated ? "is_not_empty" : "is_empty");
+    }
+    return condition(id, "priority", negated ? "not_equals" : "equals", level);
+  }
+
+  const levels =
+    modifier === "above"
+      ? PRIORITY_ORDER.slice(index + 1)
+      : PRIORITY_ORDER.slice(0, index);
+  if (levels.length === 0) {
+    return `No priority is ${modifier} ${level}.`;
+  }
+
+  return {
+    id,
+    logic: "OR",
+    negate: false,
+    conditions: levels.map((l) =>
+      l === "none"
+        ? condition(`${id}-${l}`, "priority", "is_empty")
+        : condition(`${id}-${l}`, "priority", "equals", l)
+    ),
+    groups: [],
+  };
+}
+
+/**
+ * Creates a condition.
+ */
+function condition(
+  id: string,
+  property: TaskProperty,
+  operator: ConditionOperator,
+  value = ""
+): Condition {
+  return { id, property, operator, value };
+}
+
+/**
+ * Distinguishes compiled conditions from compiled groups.
+ */
+function isCondition(value: Condition | ConditionGroup): value is Condition {
+  return (value as Condition).operator !== undefined;
+}
@@ -2,17 +2,62 @@ import {
   App,
   PluginSettingTab,
   Setting,
-  Notice,
 } from "obsidian";
 import type TaskPropertyPlugin from "./main";
+import {
+  generateId,
+  createConditionGroup,
+  createFileScope,
+  createProgressOutput,
+} from "./utils";
+import { compileQuery } from "./queryParser";
+import { compileFormula } from "./formula";
+import { isDateOffset } from "./dateUtils";
+import { isDateProperty, isWritableProperty } from "./taskParser";
+import {
+  parseFrontmatterConditions,
+  formatFrontmatterConditions,
+} from "./fileScope";
+import { parseProgressLabels, formatProgressLabels } from "./progress";
 import {
   DirectMapping,
   OperationMapping,
+  FormulaMapping,
   TaskProperty,
   OperationType,
   ConditionOperator,
   ConditionLogic,
   Condition,
+  ConditionGroup,
+  FileScope,
+  FilterMode,
+  TaskSource,
+  EmptyValuePolicy,
+  OverwriteMode,
+  TaskFormat,
+  StatusType,
+  StatusDefinition,
+  ListOutputFormat,
+  ListSortOrder,
+  DateOutputFormat,
+  ProgressOutputFormat,
+  TaskSelectionRule,
+  DEFAULT_LIST_OUTPUT,
+  DEFAULT_DATE_OUTPUT,
+  DEFAULT_TASK_SELECTION,
+  LEGACY_LIST_OUTPUT,
+  DEFAULT_HIERARCHY_OPTIONS,
+  DEFAULT_SECTION_SCOPE,
+  LIST_OUTPUT_FORMAT_LABELS,
+  LIST_SORT_ORDER_LABELS,
+  DATE_OUTPUT_FORMAT_LABELS,
+  PROGRESS_OUTPUT_FORMAT_LABELS,
+  TASK_SELECTION_LABELS,
+  TASK_FORMAT_LABELS,
+  TASK_SOURCE_LABELS,
+  EMPTY_VALUE_POLICY_LABELS,
+  OVERWRITE_MODE_LABELS,
+  STATUS_TYPE_LABELS,
   TASK_PROPERTY_LABELS,
   OPERATION_LABELS,
   CONDITION_OPERATOR_LABELS,
@@ -31,8 +76,36 @@ const TASK_PROPERTIES: TaskProperty[] = [
   "priority",
   "status",
   "description",
+  "id",
+  "depends_on",
+  "status_type",
+  "status_name",
+  "tags",
+  "links",
+  "section",
+];
+
+/**
+ * Available task sources for dropdowns.
+ */
+const TASK_SOURCES: TaskSource[] = ["file", "outgoing_links", "backlinks", "folder"];
+
+/**
+ * Available status types for dropdowns.
+ */
+const STATUS_TYPES: StatusType[] = [
+  "TODO",
+  "IN_PROGRESS",
+  "DONE",
+  "CANCELLED",
+  "NON_TASK",
 ];
 
+/**
+ * Available task formats for dropdowns.
+ */
+const TASK_FORMATS: TaskFormat[] = ["auto", "emoji", "dataview"];
+
 /**
  * Available operations for dropdowns.
  */
@@ -43,8 +116,14 @@ const OPERATIONS: OperationType[] = [
   "count_all",
   "count_done",
   "count_open",
+  "count_in_progress",
+  "count_cancelled",
   "percentage_done",
+  "percentage_done_weighted",
+  "count_blocked",
+  "count_actionable",
   "list",
+  "list_unique",
   "first",
   "last",
 ];
@@ -57,24 +136,110 @@ const CONDITION_OPERATORS: ConditionOperator[] = [
   "not_equals",
   "contains",
   "not_contains",
+  "contains_ignore_case",
+  "not_contains_ignore_case",
   "is_empty",
   "is_not_empty",
   "greater_than",
   "less_than",
   "greater_or_equal",
   "less_or_equal",
+  "has_tag",
+  "not_has_tag",
+  "has_any_tag",
+  "has_all_tags",
+];
+
+/**
+ * Operations that produce a list result.
+ */
+const LIST_OPERATIONS: OperationType[] = ["list", "list_unique"];
+
+/**
+ * Available list output formats for dropdowns.
+ */
+const LIST_OUTPUT_FORMATS: ListOutputFormat[] = ["yaml", "text"];
+
+/**
+ * Available list sort orders for dropdowns.
+ */
+const LIST_SORT_ORDERS: ListSortOrder[] = ["none", "asc", "desc"];
+
+/**
+ * Operations whose result is a date (or a list of dates) for date properties.
+ */
+const DATE_RESULT_OPERATIONS: OperationType[] = [
+  "min",
+  "max",
+  "first",
+  "last",
+  "list",
+  "list_unique",
+];
+
+/**
+ * Operations that produce a progress percentage.
+ */
+const PROGRESS_OPERATIONS: OperationType[] = ["percentage_done", "percentage_done_weighted"];
+
+/**
+ * Available progress output formats for dropdowns.
+ */
+const PROGRESS_OUTPUT_FORMATS: ProgressOutputFormat[] = [
+  "number",
+  "bar",
+  "fraction",
+  "percent",
+  "label",
+];
+
+/**
+ * Available task selection rules for dropdowns.
+ */
+const TASK_SELECTION_RULES: TaskSelectionRule[] = [
+  "first_with_value",
+  "first",
+  "last",
+  "first_open",
+  "tag",
+  "block_id",
+  "query",
+  "highest_priority",
 ];
 
+/**
+ * Available date output formats for dropdowns.
+ */
+const DATE_OUTPUT_FORMATS: DateOutputFormat[] = ["date", "datetime", "custom", "relative"];
+
 /**
  * Operators that don't need a comparison value.
  */
 const VALUE_LESS_OPERATORS: ConditionOperator[] = ["is_empty", "is_not_empty"];
 
 /**
- * Generates a unique ID for mappings.
+ * Available overwrite modes for dropdowns.
+ */
+const OVERWRITE_MODES: OverwriteMode[] = ["always", "never", "owned"];
+
+/**
+ * Available "when no value" policies for dropdowns.
+ */
+const EMPTY_VALUE_POLICIES: EmptyValuePolicy[] = ["keep", "delete", "empty", "default"];
+
+/**
+ * Maximum nesting depth of condition groups in the editor.
  */
-function generateId(): string {
-  return Date.now().toString(36) + Math.random().toString(36).substring(2, 8);
+const MAX_GROUP_DEPTH = 3;
+
+/**
+ * Splits text into trimmed, non-empty lines.
+ */
+function splitLines(value: string): string[] {
+  return value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
 }
 
 export class TaskPropertySettingTab extends PluginSettingTab {
@@ -103,6 +268,22 @@ export class TaskPropertySettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("Task format")
+      .setDesc(
+        "Which task metadata format to read. Auto-detect uses the dataview format for tasks containing inline fields such as [due:: 2025-03-15], and the emoji format otherwise."
+      )
+      .addDropdown((dropdown) => {
+        for (const format of TASK_FORMATS) {
+          dropdown.addOption(format, TASK_FORMAT_LABELS[format]);
+        }
+        dropdown.setValue(this.plugin.settings.taskFormat);
+        dropdown.onChange(async (value) => {
+          this.plugin.settings.taskFormat = value as TaskFormat;
+          await this.plugin.saveSettings();
+        });
+      });
+
     new Setting(containerEl)
       .setName("Debounce delay (ms)")
       .setDesc(
@@ -129,20 +310,24 @@ export class TaskPropertySettingTab extends PluginSettingTab {
       )
       .addButton((button) =>
         button.setButtonText("Process all files").onClick(async () => {
-          const count = await this.plugin.processor.processAllFiles();
-          new Notice(`Processed ${count} files.`);
+          await this.plugin.processAllFiles();
+        })
+      )
+      .addButton((button) =>
+        button.setButtonText("Preview changes").onClick(async () => {
+          await this.plugin.previewAllFiles();
         })
       );
 
     // ──────────────── Excluded Folders ────────────────
     new Setting(containerEl)
       .setName("Excluded folders")
-      .setDesc("Files in these folders will not be processed. Enter folder paths relative to the vault root, one per line.")
+      .setDesc("Files in these folders will not be processed. Enter folder paths or glob patterns (such as Archive/** or Daily/*.md) relative to the vault root, one per line.")
       .setHeading();
 
     new Setting(containerEl)
       .setName("Folder paths")
-      .setDesc("Folder paths to exclude (one per line)")
+      .setDesc("Folder paths or glob patterns to exclude (one per line)")
       .addTextArea((textArea) => {
         textArea
           .setPlaceholder("")
@@ -158,6 +343,43 @@ export class TaskPropertySettingTab extends PluginSettingTab {
         textArea.inputEl.cols = 40;
       });
 
+    // ──────────────── Task Statuses ────────────────
+    new Setting(containerEl)
+      .setName("Task statuses")
+      .setDesc("Map checkbox symbols to a status name and type, mirroring custom statuses. Symbols not listed here are treated as todo. Non-task statuses are ignored entirely.")
+      .setHeading();
+
+    new Setting(containerEl)
+      .setName("Exclude cancelled tasks from percentages")
+      .setDesc(
+        "If enabled, cancelled tasks are left out of the total when calculating the percentage of done tasks."
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.excludeCancelledFromPercentage)
+          .onChange(async (value) => {
+            this.plugin.settings.excludeCancelledFromPercentage = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl).addButton((button) =>
+      button.setButtonText("Add status").onClick(async () => {
+        const newStatus: StatusDefinition = {
+          symbol: "",
+          name: "",
+          type: "TODO",
+        };
+        this.plugin.settings.statuses.push(newStatus);
+        await this.plugin.saveSettings();
+        this.display();
+      })
+    );
+
+    for (let i = 0; i < this.plugin.settings.statuses.length; i++) {
+      this.renderStatus(containerEl, i);
+    }
+
     // ──────────────── Direct Mappings ────────────────
     new Setting(containerEl)
       .setName("Direct property mappings")
@@ -174,8 +396,15 @@ export class TaskPropertySettingTab extends PluginSettingTab {
             id: generateId(),
             taskProperty: "due_date",
             frontmatterKey: "due",
-            overwriteExisting: true,
+            overwriteMode: "always",
             enabled: true,
+            fileScope: createFileScope(),
+            emptyValuePolicy: "keep",
+            emptyValueDefault: "",
+            dateOutput: { ...DEFAULT_DATE_OUTPUT },
+            bidirectional: false,
+            taskSelection: { ...DEFAULT_TASK_SELECTION },
+            valueTemplate: "",
           };
           this.plugin.settings.directMappings.push(newMapping);
           await this.plugin.saveSettings();
@@ -205,10 +434,21 @@ export class TaskPropertySettingTab extends PluginSettingTab {
             taskProperty: "scheduled_date",
             operation: "min",
             frontmatterKey: "scheduled_task",
-            overwriteExisting: true,
+            overwriteMode: "always",
             enabled: true,
-            conditions: [],
-            conditionLogic: "AND",
+            conditionGroup: createConditionGroup(),
+            filterMode: "builder",
+            query: "",
+            hierarchy: { ...DEFAULT_HIERARCHY_OPTIONS },
+            sectionScope: { ...DEFAULT_SECTION_SCOPE },
+            fileScope: createFileScope(),
+            source: "file",
+            listOutput: { ...DEFAULT_LIST_OUTPUT },
+            emptyValuePolicy: "keep",
+            emptyValueDefault: "",
+            dateOutput: { ...DEFAULT_DATE_OUTPUT },
+            valueTemplate: "",
+            progressOutput: createProgressOutput(),
           };
           this.plugin.settings.operationMappings.push(newMapping);
           await this.plugin.saveSettings();
@@ -220,6 +460,91 @@ export class TaskPropertySettingTab extends PluginSettingTab {
     for (let i = 0; i < this.plugin.settings.operationMappings.length; i++) {
       this.renderOperationMapping(containerEl, i);
     }
+
+    // ──────────────── Formula Mappings ────────────────
+    new Setting(containerEl)
+      .setName("Formula mappings")
+      .setDesc("Compute a value from task aggregates, today and frontmatter fields, such as the days until the earliest due date.")
+      .setHeading();
+
+    // Add button for new formula mapping
+    new Setting(containerEl).addButton((button) =>
+      button
+        .setButtonText("Add formula mapping")
+        .setCta()
+        .onClick(async () => {
+          const newMapping: FormulaMapping = {
+            id: generateId(),
+            formula: "days_until(min(due_date))",
+            frontmatterKey: "days_left",
+            overwriteMode: "always",
+            enabled: true,
+            fileScope: createFileScope(),
+            emptyValuePolicy: "keep",
+            emptyValueDefault: "",
+            dateOutput: { ...DEFAULT_DATE_OUTPUT },
+          };
+          this.plugin.settings.formulaMappings.push(newMapping);
+          await this.plugin.saveSettings();
+          this.display();
+        })
+    );
+
+    // Render each formula mapping
+    for (let i = 0; i < this.plugin.settings.formulaMappings.length; i++) {
+      this.renderFormulaMapping(containerEl, i);
+    }
+  }
+
+  /**
+   * Renders a single status registry entry in the settings UI.
+   */
+  private renderStatus(containerEl: HTMLElement, index: number): void {
+    const status = this.plugin.settings.statuses[index];
+
+    new Setting(containerEl)
+      .setName(`Status #${index + 1}`)
+      .addText((text) => {
+        text
+          .setPlaceholder("Symbol")
+          .setValue(status.symbol)
+          .onChange(async (value) => {
+            // Checkbox symbols are a single character; a space is a valid symbol
+            status.symbol = value.length > 0 ? value.charAt(0) : "";
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.maxLength = 1;
+        text.inputEl.size = 2;
+      })
+      .addText((text) =>
+        text
+          .setPlaceholder("Name")
+          .setValue(status.name)
+          .onChange(async (value) => {
+            status.name = value.trim();
+            await this.plugin.saveSettings();
+          })
+      )
+      .addDropdown((dropdown) => {
+        for (const type of STATUS_TYPES) {
+          dropdown.addOption(type, STATUS_TYPE_LABELS[type]);
+        }
+        dropdown.setValue(status.type);
+        dropdown.onChange(async (value) => {
+          status.type = value as StatusType;
+          await this.plugin.saveSettings();
+        });
+      })
+      .addExtraButton((button) =>
+        button
+          .setIcon("trash")
+          .setTooltip("Delete this status")
+          .onClick(async () => {
+            this.plugin.settings.statuses.splice(index, 1);
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
   }
 
   /**
@@ -263,13 +588,16 @@ export class TaskPropertySettingTab extends PluginSettingTab {
         dropdown.onChange(async (value) => {
           mapping.taskProperty = value as TaskProperty;
           await this.plugin.saveSettings();
+          this.display();
         });
       });
 
+    this.renderTaskSelectionSettings(wrapper, mapping);
+
     // Frontmatter key
     new Setting(wrapper)
       .setName("Frontmatter property name")
-      .setDesc("The name of the frontmatter property to write to")
+      .setDesc("The name of the frontmatter property to write to. Template variables such as {{section}} (the heading of the source task) can be used.")
       .addText((text) =>
         text
           .setPlaceholder("Due")
@@ -280,18 +608,114 @@ export class TaskPropertySettingTab extends PluginSettingTab {
           })
       );
 
-    // Overwrite toggle
+    this.renderValueTemplateSettings(wrapper, mapping);
+
+    // Overwrite mode
     new Setting(wrapper)
       .setName("Overwrite existing values")
       .setDesc(
-        "If enabled, existing frontmatter values will be overwritten. If disabled, only empty/missing properties will be set."
+        "When an existing frontmatter value may be replaced. The last option keeps updating values written by this plugin, but leaves values you edited by hand alone."
       )
-      .addToggle((toggle) =>
-        toggle.setValue(mapping.overwriteExisting).onChange(async (value) => {
-          mapping.overwriteExisting = value;
+      .addDropdown((dropdown) => {
+        for (const mode of OVERWRITE_MODES) {
+          dropdown.addOption(mode, OVERWRITE_MODE_LABELS[mode]);
+        }
+        dropdown.setValue(mapping.overwriteMode ?? "always");
+        dropdown.onChange(async (value) => {
+          mapping.overwriteMode = value as OverwriteMode;
           await this.plugin.saveSettings();
-        })
-      );
+        });
+      });
+
+    if (isDateProperty(mapping.taskProperty)) {
+      this.renderDateOutputSettings(wrapper, mapping);
+    }
+
+    // Bidirectional sync (only for properties that can be written to a task line)
+    if (isWritableProperty(mapping.taskProperty)) {
+      new Setting(wrapper)
+        .setName("Sync changes back to the task")
+        .setDesc(
+          "When you edit the frontmatter property, update the task it came from. If both the property and the task changed since the last sync, neither is changed and you are notified. Not available with custom or relative date output or an offset."
+        )
+        .addToggle((toggle) =>
+          toggle.setValue(mapping.bidirectional ?? false).onChange(async (value) => {
+            mapping.bidirectional = value;
+            await this.plugin.saveSettings();
+          })
+        );
+    }
+
+    this.renderEmptyValueSettings(wrapper, mapping);
+
+    if (!mapping.fileScope) mapping.fileScope = createFileScope();
+    this.renderFileScopeSettings(wrapper, mapping.fileScope);
+  }
+
+  /**
+   * Renders the task selection rule of a direct mapping, with the tag,
+   * block ID or query field of the rules that need one.
+   */
+  private renderTaskSelectionSettings(parentEl: HTMLElement, mapping: DirectMapping): void {
+    // Migration safety
+    if (!mapping.taskSelection) mapping.taskSelection = { ...DEFAULT_TASK_SELECTION };
+    const selection = mapping.taskSelection;
+
+    new Setting(parentEl)
+      .setName("Source task")
+      .setDesc("Which task in the note the value is read from")
+      .addDropdown((dropdown) => {
+        for (const rule of TASK_SELECTION_RULES) {
+          dropdown.addOption(rule, TASK_SELECTION_LABELS[rule]);
+        }
+        dropdown.setValue(selection.rule);
+        dropdown.onChange(async (value) => {
+          selection.rule = value as TaskSelectionRule;
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+
+    if (selection.rule === "tag" || selection.rule === "block_id") {
+      const isTag = selection.rule === "tag";
+      new Setting(parentEl)
+        .setName(isTag ? "Tag" : "Block ID")
+        .setDesc(
+          isTag
+            ? "Nested tags count for their parent tag"
+            : "The block ID at the end of the task line, with or without the ^"
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder(isTag ? "#next" : "Ref")
+            .setValue(selection.value)
+            .onChange(async (value) => {
+              selection.value = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    if (selection.rule === "query") {
+      new Setting(parentEl)
+        .setName("Task query")
+        .setDesc("One filter per line, as in text queries; the first task matching all lines is used.")
+        .addTextArea((textArea) => {
+          textArea
+            .setPlaceholder("Not done")
+            .setValue(selection.value)
+            .onChange(async (value) => {
+              selection.value = value;
+              this.renderQueryErrors(errorsEl, value);
+              await this.plugin.saveSettings();
+            });
+          textArea.inputEl.rows = 3;
+          textArea.inputEl.cols = 40;
+        });
+
+      const errorsEl = parentEl.createDiv({ cls: "tpp-query-errors" });
+      this.renderQueryErrors(errorsEl, selection.value);
+    }
   }
 
   /**
@@ -303,9 +727,13 @@ export class TaskPropertySettingTab extends PluginSettingTab {
   ): void {
     const mapping = this.plugin.settings.operationMappings[index];
 
-    // Ensure conditions array exists (migration safety for old settings)
-    if (!mapping.conditions) mapping.conditions = [];
-    if (!mapping.conditionLogic) mapping.conditionLogic = "AND";
+    // Ensure the condition group exists (migration safety for old settings)
+    if (!mapping.conditionGroup) mapping.conditionGroup = createConditionGroup();
+    if (!mapping.listOutput) mapping.listOutput = { ...LEGACY_LIST_OUTPUT };
+    if (!mapping.hierarchy) mapping.hierarchy = { ...DEFAULT_HIERARCHY_OPTIONS };
+    const hierarchy = mapping.hierarchy;
+    if (!mapping.sectionScope) mapping.sectionScope = { ...DEFAULT_SECTION_SCOPE };
+    const sectionScope = mapping.sectionScope;
 
     const wrapper = containerEl.createDiv({ cls: "tpp-mapping-container" });
 
@@ -343,6 +771,24 @@ export class TaskPropertySettingTab extends PluginSettingTab {
         dropdown.onChange(async (value) => {
           mapping.taskProperty = value as TaskProperty;
           await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+
+    // Task source selector
+    new Setting(wrapper)
+      .setName("Task source")
+      .setDesc(
+        "Which notes to collect tasks from. Notes that read from other notes are updated when those notes change."
+      )
+      .addDropdown((dropdown) => {
+        for (const source of TASK_SOURCES) {
+          dropdown.addOption(source, TASK_SOURCE_LABELS[source]);
+        }
+        dropdown.setValue(mapping.source ?? "file");
+        dropdown.onChange(async (value) => {
+          mapping.source = value as TaskSource;
+          await this.plugin.saveSettings();
         });
       });
 
@@ -358,13 +804,14 @@ export class TaskPropertySettingTab extends PluginSettingTab {
         dropdown.onChange(async (value) => {
           mapping.operation = value as OperationType;
           await this.plugin.saveSettings();
+          this.display();
         });
       });
 
     // Frontmatter key
     new Setting(wrapper)
       .setName("Frontmatter property name")
-      .setDesc("The name of the frontmatter property to write the result to")
+      .setDesc("The name of the frontmatter property to write the result to. With {{section}} in the name, one property is written per heading.")
       .addText((text) =>
         text
           .setPlaceholder("Scheduled_task")
@@ -375,56 +822,688 @@ export class TaskPropertySettingTab extends PluginSettingTab {
           })
       );
 
-    // Overwrite toggle
+    this.renderValueTemplateSettings(wrapper, mapping);
+
+    // Overwrite mode
     new Setting(wrapper)
       .setName("Overwrite existing values")
       .setDesc(
-        "If enabled, existing frontmatter values will be overwritten. If disabled, only empty/missing properties will be set."
+        "When an existing frontmatter value may be replaced. The last option keeps updating values written by this plugin, but leaves values you edited by hand alone."
+      )
+      .addDropdown((dropdown) => {
+        for (const mode of OVERWRITE_MODES) {
+          dropdown.addOption(mode, OVERWRITE_MODE_LABELS[mode]);
+        }
+        dropdown.setValue(mapping.overwriteMode ?? "always");
+        dropdown.onChange(async (value) => {
+          mapping.overwriteMode = value as OverwriteMode;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    this.renderEmptyValueSettings(wrapper, mapping);
+
+    if (!mapping.fileScope) mapping.fileScope = createFileScope();
+    this.renderFileScopeSettings(wrapper, mapping.fileScope);
+
+    // Section scope
+    new Setting(wrapper)
+      .setName("Section")
+      .setDesc(
+        "Only consider tasks under this heading (without the leading #). Leave empty to use the whole file."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("This sprint")
+          .setValue(sectionScope.heading)
+          .onChange(async (value) => {
+            sectionScope.heading = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(wrapper)
+      .setName("Include sub-sections")
+      .setDesc("Also consider tasks under sub-headings of the section.")
+      .addToggle((toggle) =>
+        toggle.setValue(sectionScope.includeSubsections).onChange(async (value) => {
+          sectionScope.includeSubsections = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // Sub-task options
+    new Setting(wrapper)
+      .setName("Only top-level tasks")
+      .setDesc("Ignore sub-tasks (indented tasks below another task).")
+      .addToggle((toggle) =>
+        toggle.setValue(hierarchy.topLevelOnly).onChange(async (value) => {
+          hierarchy.topLevelOnly = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(wrapper)
+      .setName("Inherit parent dates")
+      .setDesc(
+        "Sub-tasks without a due, scheduled or start date use the date of their parent task."
       )
       .addToggle((toggle) =>
-        toggle.setValue(mapping.overwriteExisting).onChange(async (value) => {
-          mapping.overwriteExisting = value;
+        toggle.setValue(hierarchy.inheritParentDates).onChange(async (value) => {
+          hierarchy.inheritParentDates = value;
           await this.plugin.saveSettings();
         })
       );
 
+    // List output options (only for list operations)
+    if (LIST_OPERATIONS.includes(mapping.operation)) {
+      this.renderListOutputSettings(wrapper, mapping);
+    }
+
+    // Progress output options (only for percentage operations)
+    if (PROGRESS_OPERATIONS.includes(mapping.operation)) {
+      this.renderProgressOutputSettings(wrapper, mapping);
+    }
+
+    // Date output options (only for operations that return dates)
+    if (
+      isDateProperty(mapping.taskProperty) &&
+      DATE_RESULT_OPERATIONS.includes(mapping.operation)
+    ) {
+      this.renderDateOutputSettings(wrapper, mapping);
+    }
+
     // ──────────────── Conditions Section ────────────────
     this.renderConditionsSection(wrapper, mapping);
   }
 
   /**
-   * Renders the conditions section within an operation mapping.
+   * Renders a single formula mapping in the settings UI.
    */
-  private renderConditionsSection(
-    parentEl: HTMLElement,
-    mapping: OperationMapping
-  ): void {
-    const condSection = parentEl.createDiv({ cls: "tpp-conditions-section" });
-
-    // Conditions header with logic toggle and add button
-    const condHeaderSetting = new Setting(condSection)
-      .setName("Conditions")
-      .setDesc(
-        mapping.conditions.length === 0
-          ? "No conditions — all tasks will be included. Add conditions to filter which tasks are considered."
-          : `${mapping.conditions.length} condition(s) applied. Only tasks matching ${mapping.conditionLogic === "AND" ? "all" : "any"} conditions are included.`
-      );
-
-    // Logic toggle (only show if there are 2+ conditions)
-    if (mapping.conditions.length >= 2) {
-      condHeaderSetting.addDropdown((dropdown) => {
-        dropdown.addOption("AND", "Match all");
-        dropdown.addOption("OR", "Match any");
-        dropdown.setValue(mapping.conditionLogic);
-        dropdown.onChange(async (value) => {
-          mapping.conditionLogic = value as ConditionLogic;
-          await this.plugin.saveSettings();
-          this.display();
-        });
-      });
-    }
+  private renderFormulaMapping(containerEl: HTMLElement, index: number): void {
+    const mapping = this.plugin.settings.formulaMappings[index];
+    const wrapper = containerEl.createDiv({ cls: "tpp-mapping-container" });
 
-    condHeaderSetting.addButton((button) =>
+    new Setting(wrapper)
+      .setName(`Formula mapping #${index + 1}`)
+      .addToggle((toggle) =>
+        toggle
+          .setTooltip("Enable/disable this mapping")
+          .setValue(mapping.enabled)
+          .onChange(async (value) => {
+            mapping.enabled = value;
+            await this.plugin.saveSettings();
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon("trash")
+          .setTooltip("Delete this mapping")
+          .onClick(async () => {
+            this.plugin.settings.formulaMappings.splice(index, 1);
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    // Formula
+    new Setting(wrapper)
+      .setName("Formula")
+      .setDesc(
+        "For example: days_until(min(due_date)), count_open - count_blocked, or count_open > 0 ? \"active\" : \"idle\"."
+      )
+      .addTextArea((textArea) => {
+        textArea
+          .setValue(mapping.formula)
+          .onChange(async (value) => {
+            mapping.formula = value;
+            this.renderFormulaErrors(errorsEl, value);
+            await this.plugin.saveSettings();
+          });
+        textArea.inputEl.rows = 3;
+        textArea.inputEl.cols = 40;
+      });
+
+    const errorsEl = wrapper.createDiv({ cls: "tpp-query-errors" });
+    this.renderFormulaErrors(errorsEl, mapping.formula);
+
+    // Frontmatter key
+    new Setting(wrapper)
+      .setName("Frontmatter property name")
+      .setDesc("The name of the frontmatter property to write to")
+      .addText((text) =>
+        text
+          .setPlaceholder("Days left")
+          .setValue(mapping.frontmatterKey)
+          .onChange(async (value) => {
+            mapping.frontmatterKey = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    this.renderDateOutputSettings(wrapper, mapping);
+
+    // Overwrite mode
+    new Setting(wrapper)
+      .setName("Overwrite existing values")
+      .setDesc(
+        "When an existing frontmatter value may be replaced. The last option keeps updating values written by this plugin, but leaves values you edited by hand alone."
+      )
+      .addDropdown((dropdown) => {
+        for (const mode of OVERWRITE_MODES) {
+          dropdown.addOption(mode, OVERWRITE_MODE_LABELS[mode]);
+        }
+        dropdown.setValue(mapping.overwriteMode);
+        dropdown.onChange(async (value) => {
+          mapping.overwriteMode = value as OverwriteMode;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    this.renderEmptyValueSettings(wrapper, mapping);
+
+    if (!mapping.fileScope) mapping.fileScope = createFileScope();
+    this.renderFileScopeSettings(wrapper, mapping.fileScope);
+  }
+
+  /**
+   * Shows the parse errors of a formula, or nothing if it is valid.
+   */
+  private renderFormulaErrors(errorsEl: HTMLElement, formula: string): void {
+    errorsEl.empty();
+    for (const error of compileFormula(formula).errors) {
+      errorsEl.createDiv({
+        cls: "tpp-query-error",
+        text: `Column ${error.column}: ${error.message}`,
+      });
+    }
+  }
+
+  /**
+   * Renders the file scope options shared by all mapping types.
+   */
+  private renderFileScopeSettings(parentEl: HTMLElement, scope: FileScope): void {
+    const scopeSection = parentEl.createDiv({ cls: "tpp-file-scope-section" });
+
+    new Setting(scopeSection)
+      .setName("File scope")
+      .setDesc("Limit this mapping to certain notes. Empty fields are ignored; all filled fields must match.");
+
+    new Setting(scopeSection)
+      .setName("Include paths")
+      .setDesc("Only notes in these folders or matching these glob patterns (one per line)")
+      .addTextArea((textArea) => {
+        textArea
+          .setPlaceholder("Projects/**")
+          .setValue(scope.includePaths.join("\n"))
+          .onChange(async (value) => {
+            scope.includePaths = splitLines(value);
+            await this.plugin.saveSettings();
+          });
+        textArea.inputEl.rows = 2;
+      });
+
+    new Setting(scopeSection)
+      .setName("Exclude paths")
+      .setDesc("Skip notes in these folders or matching these glob patterns (one per line)")
+      .addTextArea((textArea) => {
+        textArea
+          .setPlaceholder("Projects/archive/**")
+          .setValue(scope.excludePaths.join("\n"))
+          .onChange(async (value) => {
+            scope.excludePaths = splitLines(value);
+            await this.plugin.saveSettings();
+          });
+        textArea.inputEl.rows = 2;
+      });
+
+    new Setting(scopeSection)
+      .setName("Required tags")
+      .setDesc("Only notes that have all of these tags, separated by commas. Nested tags count for their parent tag.")
+      .addText((text) =>
+        text
+          .setPlaceholder("#project")
+          .setValue(scope.requiredTags.join(", "))
+          .onChange(async (value) => {
+            scope.requiredTags = value
+              .split(",")
+              .map((t) => t.trim())
+              .filter((t) => t.length > 0);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(scopeSection)
+      .setName("Frontmatter conditions")
+      .setDesc("Only notes whose frontmatter matches all of these lines. Write key: value, or just the key to require that it is set.")
+      .addTextArea((textArea) => {
+        textArea
+          .setPlaceholder("Type: project")
+          .setValue(formatFrontmatterConditions(scope.frontmatterConditions))
+          .onChange(async (value) => {
+            scope.frontmatterConditions = parseFrontmatterConditions(value);
+            await this.plugin.saveSettings();
+          });
+        textArea.inputEl.rows = 2;
+      });
+  }
+
+  /**
+   * Renders the value template field of a direct or operation mapping.
+   */
+  private renderValueTemplateSettings(
+    parentEl: HTMLElement,
+    mapping: DirectMapping | OperationMapping
+  ): void {
+    // Migration safety
+    if (typeof mapping.valueTemplate !== "string") mapping.valueTemplate = "";
+
+    new Setting(parentEl)
+      .setName("Value template")
+      .setDesc(
+        "Write text built from template variables instead of the plain value: {{value}}, {{section}}, and task counts such as {{count_done}}, {{count_all}} or {{percentage_done}}. Leave empty to write the value itself."
+      )
+      .addText((text) =>
+        text
+          .setValue(mapping.valueTemplate)
+          .onChange(async (value) => {
+            mapping.valueTemplate = value;
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  /**
+   * Renders the "when no value" policy of a mapping, with the default
+   * value field for the "default" policy.
+   */
+  private renderEmptyValueSettings(
+    parentEl: HTMLElement,
+    mapping: DirectMapping | OperationMapping | FormulaMapping
+  ): void {
+    // Migration safety
+    if (!mapping.emptyValuePolicy) mapping.emptyValuePolicy = "keep";
+    if (typeof mapping.emptyValueDefault !== "string") mapping.emptyValueDefault = "";
+
+    new Setting(parentEl)
+      .setName("When no value")
+      .setDesc(
+        "What to do with the property when no task has a value, for example after the last matching task was removed."
+      )
+      .addDropdown((dropdown) => {
+        for (const policy of EMPTY_VALUE_POLICIES) {
+          dropdown.addOption(policy, EMPTY_VALUE_POLICY_LABELS[policy]);
+        }
+        dropdown.setValue(mapping.emptyValuePolicy);
+        dropdown.onChange(async (value) => {
+          mapping.emptyValuePolicy = value as EmptyValuePolicy;
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+
+    if (mapping.emptyValuePolicy === "default") {
+      new Setting(parentEl)
+        .setName("Default value")
+        .setDesc("Numbers and true / false are written as such, anything else as text")
+        .addText((text) =>
+          text
+            .setPlaceholder("None")
+            .setValue(mapping.emptyValueDefault)
+            .onChange(async (value) => {
+              mapping.emptyValueDefault = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+  }
+
+  /**
+   * Renders the list output options of an operation mapping.
+   */
+  private renderListOutputSettings(
+    parentEl: HTMLElement,
+    mapping: OperationMapping
+  ): void {
+    const listOutput = mapping.listOutput ?? { ...LEGACY_LIST_OUTPUT };
+    mapping.listOutput = listOutput;
+
+    new Setting(parentEl)
+      .setName("List output")
+      .setDesc(
+        "Write the values as a list property, or as text joined by a separator."
+      )
+      .addDropdown((dropdown) => {
+        for (const format of LIST_OUTPUT_FORMATS) {
+          dropdown.addOption(format, LIST_OUTPUT_FORMAT_LABELS[format]);
+        }
+        dropdown.setValue(listOutput.format);
+        dropdown.onChange(async (value) => {
+          listOutput.format = value as ListOutputFormat;
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+
+    if (listOutput.format === "text") {
+      new Setting(parentEl)
+        .setName("Separator")
+        .setDesc("Text placed between the values")
+        .addText((text) =>
+          text
+            .setPlaceholder(", ")
+            .setValue(listOutput.separator)
+            .onChange(async (value) => {
+              listOutput.separator = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    new Setting(parentEl)
+      .setName("Remove duplicates")
+      .setDesc("Only keep the first occurrence of each value")
+      .addToggle((toggle) =>
+        toggle.setValue(listOutput.deduplicate).onChange(async (value) => {
+          listOutput.deduplicate = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(parentEl)
+      .setName("Sort values")
+      .addDropdown((dropdown) => {
+        for (const order of LIST_SORT_ORDERS) {
+          dropdown.addOption(order, LIST_SORT_ORDER_LABELS[order]);
+        }
+        dropdown.setValue(listOutput.sort);
+        dropdown.onChange(async (value) => {
+          listOutput.sort = value as ListSortOrder;
+          await this.plugin.saveSettings();
+        });
+      });
+  }
+
+  /**
+   * Renders the progress output options of an operation mapping: the
+   * format, and the bar length, decimals or labels it uses.
+   */
+  private renderProgressOutputSettings(
+    parentEl: HTMLElement,
+    mapping: OperationMapping
+  ): void {
+    // Migration safety
+    if (!mapping.progressOutput) mapping.progressOutput = createProgressOutput();
+    const progressOutput = mapping.progressOutput;
+
+    new Setting(parentEl)
+      .setName("Progress output")
+      .setDesc("How the percentage is written. All formats except the percentage are written as text.")
+      .addDropdown((dropdown) => {
+        for (const format of PROGRESS_OUTPUT_FORMATS) {
+          dropdown.addOption(format, PROGRESS_OUTPUT_FORMAT_LABELS[format]);
+        }
+        dropdown.setValue(progressOutput.format);
+        dropdown.onChange(async (value) => {
+          progressOutput.format = value as ProgressOutputFormat;
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+
+    if (progressOutput.format === "bar") {
+      new Setting(parentEl)
+        .setName("Bar length")
+        .setDesc("Number of segments in the bar")
+        .addText((text) =>
+          text
+            .setPlaceholder("10")
+            .setValue(String(progressOutput.barLength))
+            .onChange(async (value) => {
+              const num = parseInt(value, 10);
+              if (!isNaN(num) && num >= 1 && num <= 100) {
+                progressOutput.barLength = num;
+                await this.plugin.saveSettings();
+              }
+            })
+        );
+    }
+
+    if (progressOutput.format === "percent") {
+      new Setting(parentEl)
+        .setName("Decimal places")
+        .addText((text) =>
+          text
+            .setPlaceholder("1")
+            .setValue(String(progressOutput.decimals))
+            .onChange(async (value) => {
+              const num = parseInt(value, 10);
+              if (!isNaN(num) && num >= 0 && num <= 10) {
+                progressOutput.decimals = num;
+                await this.plugin.saveSettings();
+              }
+            })
+        );
+    }
+
+    if (progressOutput.format === "label") {
+      new Setting(parentEl)
+        .setName("Status labels")
+        .setDesc(
+          "One label per line for a percentage or a range of percentages, for example 1-99: in progress. The first matching line is used."
+        )
+        .addTextArea((textArea) => {
+          textArea
+            .setValue(formatProgressLabels(progressOutput.labels))
+            .onChange(async (value) => {
+              progressOutput.labels = parseProgressLabels(value);
+              await this.plugin.saveSettings();
+            });
+          textArea.inputEl.rows = 3;
+        });
+    }
+  }
+
+  /**
+   * Renders the date output options of a mapping: the format, the pattern
+   * for custom formats and an optional offset.
+   */
+  private renderDateOutputSettings(
+    parentEl: HTMLElement,
+    mapping: DirectMapping | OperationMapping | FormulaMapping
+  ): void {
+    // Migration safety
+    if (!mapping.dateOutput) mapping.dateOutput = { ...DEFAULT_DATE_OUTPUT };
+    const dateOutput = mapping.dateOutput;
+
+    new Setting(parentEl)
+      .setName("Date output")
+      .setDesc(
+        "How dates are written. Custom and relative formats are written as text."
+      )
+      .addDropdown((dropdown) => {
+        for (const format of DATE_OUTPUT_FORMATS) {
+          dropdown.addOption(format, DATE_OUTPUT_FORMAT_LABELS[format]);
+        }
+        dropdown.setValue(dateOutput.format);
+        dropdown.onChange(async (value) => {
+          dateOutput.format = value as DateOutputFormat;
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+
+    if (dateOutput.format === "custom") {
+      new Setting(parentEl)
+        .setName("Date pattern")
+        .setDesc(
+          "Year, month, day and week tokens as listed in the readme. Put literal text in square brackets."
+        )
+        .addText((text) =>
+          text
+            .setValue(dateOutput.pattern)
+            .onChange(async (value) => {
+              dateOutput.pattern = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    new Setting(parentEl)
+      .setName("Date offset")
+      .setDesc(
+        "Shift dates before writing them, in days, weeks, months or years (for example -2d or +1w). Leave empty to keep dates as they are."
+      )
+      .addText((text) =>
+        text
+          .setValue(dateOutput.offset)
+          .onChange(async (value) => {
+            dateOutput.offset = value.trim();
+            this.renderDateOffsetError(offsetErrorEl, dateOutput.offset);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    const offsetErrorEl = parentEl.createDiv({ cls: "tpp-query-errors" });
+    this.renderDateOffsetError(offsetErrorEl, dateOutput.offset);
+  }
+
+  /**
+   * Shows an error if a date offset can't be parsed, or nothing if it is valid.
+   */
+  private renderDateOffsetError(errorEl: HTMLElement, offset: string): void {
+    errorEl.empty();
+    if (offset === "" || isDateOffset(offset)) return;
+    errorEl.createDiv({
+      cls: "tpp-query-error",
+      text: "Invalid offset; it is ignored. Use a number with d, w, m or y, such as -2d.",
+    });
+  }
+
+  /**
+   * Renders the conditions section within an operation mapping.
+   */
+  private renderConditionsSection(
+    parentEl: HTMLElement,
+    mapping: OperationMapping
+  ): void {
+    const condSection = parentEl.createDiv({ cls: "tpp-conditions-section" });
+
+    new Setting(condSection)
+      .setName("Filter mode")
+      .setDesc("Filter tasks with the condition builder, or with a text query in the style of the tasks plugin.")
+      .addDropdown((dropdown) => {
+        dropdown.addOption("builder", "Condition builder");
+        dropdown.addOption("query", "Text query");
+        dropdown.setValue(mapping.filterMode);
+        dropdown.onChange(async (value) => {
+          mapping.filterMode = value as FilterMode;
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+
+    if (mapping.filterMode === "query") {
+      this.renderQueryEditor(condSection, mapping);
+    } else {
+      this.renderConditionGroup(condSection, mapping.conditionGroup, null, 0);
+    }
+  }
+
+  /**
+   * Renders the text query editor with inline parse errors.
+   */
+  private renderQueryEditor(
+    parentEl: HTMLElement,
+    mapping: OperationMapping
+  ): void {
+    new Setting(parentEl)
+      .setName("Query")
+      .setDesc(
+        "One filter per line; all lines must match. Examples: not done, due before tomorrow, priority is above medium, description includes meeting, tags include #work."
+      )
+      .addTextArea((textArea) => {
+        textArea
+          .setPlaceholder("Not done")
+          .setValue(mapping.query)
+          .onChange(async (value) => {
+            mapping.query = value;
+            this.renderQueryErrors(errorsEl, value);
+            await this.plugin.saveSettings();
+          });
+        textArea.inputEl.rows = 5;
+        textArea.inputEl.cols = 40;
+      });
+
+    const errorsEl = parentEl.createDiv({ cls: "tpp-query-errors" });
+    this.renderQueryErrors(errorsEl, mapping.query);
+  }
+
+  /**
+   * Shows the parse errors of a query, or nothing if it is valid.
+   */
+  private renderQueryErrors(errorsEl: HTMLElement, query: string): void {
+    errorsEl.empty();
+    for (const error of compileQuery(query).errors) {
+      errorsEl.createDiv({
+        cls: "tpp-query-error",
+        text: `Line ${error.line}: ${error.message}`,
+      });
+    }
+  }
+
+  /**
+   * Renders a condition group: its header (logic, NOT, add buttons),
+   * its conditions and, recursively, its nested groups.
+   */
+  private renderConditionGroup(
+    parentEl: HTMLElement,
+    group: ConditionGroup,
+    parentGroup: ConditionGroup | null,
+    depth: number
+  ): void {
+    const childCount = group.conditions.length + group.groups.length;
+    const matchWord = group.logic === "AND" ? "all" : "any";
+
+    // Group header with logic toggle, NOT toggle and add buttons
+    const groupHeaderSetting = new Setting(parentEl)
+      .setName(parentGroup ? "Condition group" : "Conditions")
+      .setDesc(
+        childCount === 0
+          ? parentGroup
+            ? "Empty group — matches all tasks. Add conditions or nested groups."
+            : "No conditions — all tasks will be included. Add conditions to filter which tasks are considered."
+          : `${childCount} item(s). ${group.negate ? "Excludes" : "Includes"} tasks matching ${matchWord} of them.`
+      );
+
+    // Logic toggle (only show if there are 2+ children)
+    if (childCount >= 2) {
+      groupHeaderSetting.addDropdown((dropdown) => {
+        dropdown.addOption("AND", "Match all");
+        dropdown.addOption("OR", "Match any");
+        dropdown.setValue(group.logic);
+        dropdown.onChange(async (value) => {
+          group.logic = value as ConditionLogic;
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+    }
+
+    if (childCount >= 1) {
+      groupHeaderSetting.addToggle((toggle) =>
+        toggle
+          .setTooltip("Negate this group (match tasks that do not match it)")
+          .setValue(group.negate)
+          .onChange(async (value) => {
+            group.negate = value;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+    }
+
+    groupHeaderSetting.addButton((button) =>
       button.setButtonText("Add condition").onClick(async () => {
         const newCondition: Condition = {
           id: generateId(),
@@ -432,27 +1511,56 @@ export class TaskPropertySettingTab extends PluginSettingTab {
           operator: "not_equals",
           value: "x",
         };
-        mapping.conditions.push(newCondition);
+        group.conditions.push(newCondition);
         await this.plugin.saveSettings();
         this.display();
       })
     );
 
+    if (depth < MAX_GROUP_DEPTH) {
+      groupHeaderSetting.addButton((button) =>
+        button.setButtonText("Add group").onClick(async () => {
+          group.groups.push(createConditionGroup("OR"));
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+    }
+
+    if (parentGroup) {
+      groupHeaderSetting.addExtraButton((button) =>
+        button
+          .setIcon("trash")
+          .setTooltip("Remove this group")
+          .onClick(async () => {
+            parentGroup.groups.splice(parentGroup.groups.indexOf(group), 1);
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+    }
+
     // Render each condition
-    for (let i = 0; i < mapping.conditions.length; i++) {
-      this.renderCondition(condSection, mapping, i);
+    for (let i = 0; i < group.conditions.length; i++) {
+      this.renderCondition(parentEl, group, i);
+    }
+
+    // Render each nested group
+    for (const child of group.groups) {
+      const groupEl = parentEl.createDiv({ cls: "tpp-condition-group" });
+      this.renderConditionGroup(groupEl, child, group, depth + 1);
     }
   }
 
   /**
-   * Renders a single condition row within the conditions section.
+   * Renders a single condition row within a condition group.
    */
   private renderCondition(
     parentEl: HTMLElement,
-    mapping: OperationMapping,
+    group: ConditionGroup,
     condIndex: number
   ): void {
-    const condition = mapping.conditions[condIndex];
+    const condition = group.conditions[condIndex];
     const condWrapper = parentEl.createDiv({ cls: "tpp-condition-row" });
 
     // Condition header with delete button
@@ -463,7 +1571,7 @@ export class TaskPropertySettingTab extends PluginSettingTab {
           .setIcon("trash")
           .setTooltip("Remove this condition")
           .onClick(async () => {
-            mapping.conditions.splice(condIndex, 1);
+            group.conditions.splice(condIndex, 1);
             await this.plugin.saveSettings();
             this.display();
           })
@@ -508,21 +1616,40 @@ export class TaskPropertySettingTab extends PluginSettingTab {
         .setName("Comparison value")
         .setDesc(this.getValueHint(condition.property, condition.operator));
 
-      // For status, offer a dropdown with common values
+      // For status, offer a dropdown with the registered statuses
       if (condition.property === "status") {
         valueSetting.addDropdown((dropdown) => {
-          dropdown.addOption(" ", "Open");
-          dropdown.addOption("x", "Done");
-          dropdown.addOption("X", "Done (uppercase)");
-          dropdown.addOption("/", "In progress");
-          dropdown.addOption("-", "Cancelled");
-          // Also allow custom text
+          for (const status of this.plugin.settings.statuses) {
+            dropdown.addOption(status.symbol, `${status.name} [${status.symbol}]`);
+          }
           dropdown.setValue(condition.value || " ");
           dropdown.onChange(async (value) => {
             condition.value = value;
             await this.plugin.saveSettings();
           });
         });
+      } else if (condition.property === "status_type") {
+        valueSetting.addDropdown((dropdown) => {
+          for (const type of STATUS_TYPES) {
+            dropdown.addOption(type, STATUS_TYPE_LABELS[type]);
+          }
+          dropdown.setValue(condition.value || "TODO");
+          dropdown.onChange(async (value) => {
+            condition.value = value;
+            await this.plugin.saveSettings();
+          });
+        });
+      } else if (condition.property === "status_name") {
+        valueSetting.addDropdown((dropdown) => {
+          for (const status of this.plugin.settings.statuses) {
+            dropdown.addOption(status.name, status.name);
+          }
+          dropdown.setValue(condition.value);
+          dropdown.onChange(async (value) => {
+            condition.value = value;
+            await this.plugin.saveSettings();
+          });
+        });
       } else if (condition.property === "priority") {
         valueSetting.addDropdown((dropdown) => {
           dropdown.addOption("highest", "Highest");
@@ -557,21 +1684,37 @@ export class TaskPropertySettingTab extends PluginSettingTab {
     const isDateProp = ["due_date", "scheduled_date", "start_date", "created_date", "done_date"].includes(property);
 
     if (isDateProp) {
+      const relativeHint = " Relative dates such as today, today+7d or end of month are also supported.";
       if (operator === "greater_than" || operator === "greater_or_equal") {
-        return "Enter a date (YYYY-MM-DD). Tasks with a date after this will match.";
+        return "Enter a date (YYYY-MM-DD). Tasks with a date after this will match." + relativeHint;
       }
       if (operator === "less_than" || operator === "less_or_equal") {
-        return "Enter a date (YYYY-MM-DD). Tasks with a date before this will match.";
+        return "Enter a date (YYYY-MM-DD). Tasks with a date before this will match." + relativeHint;
       }
-      return "Enter a date in YYYY-MM-DD format.";
+      return "Enter a date in YYYY-MM-DD format." + relativeHint;
     }
 
     if (property === "status") {
       return "Select the status character to compare against.";
     }
 
+    if (property === "tags") {
+      if (operator === "has_any_tag" || operator === "has_all_tags") {
+        return "Enter tags separated by commas, e.g. #@home, #@office. Nested tags match their parent tag.";
+      }
+      return "Enter a tag such as #work. Nested tags match their parent tag.";
+    }
+
+    if (property === "links") {
+      return "Enter the linked note name without brackets. Separate several names with commas.";
+    }
+
+    if (property === "status_type" || property === "status_name") {
+      return "Select the status to compare against. Statuses are configured under task statuses.";
+    }
+
     if (property === "priority") {
-      return "Select the priority level to compare against.";
+      return "Select the priority level to compare against. Greater than means a higher priority.";
     }
 
     return "Enter the value to compare against.";
@@ -582,8 +1725,12 @@ export class TaskPropertySettingTab extends PluginSettingTab {
    */
   private getValuePlaceholder(property: TaskProperty): string {
     const isDateProp = ["due_date", "scheduled_date", "start_date", "created_date", "done_date"].includes(property);
-    if (isDateProp) return "YYYY-MM-DD";
+    if (isDateProp) return "YYYY-MM-DD or today";
     if (property === "recurrence") return "Every week";
+    if (property === "id" || property === "depends_on") return "Abc123";
+    if (property === "tags") return "#work";
+    if (property === "links") return "Project note";
+    if (property === "section") return "This sprint";
     return "Value";
   }
 }
@@ -0,0 +1,178 @@
+import { App, TFile } from "obsidian";
+import { ParsedTask } from "./types";
+
+/** Bump when the shape of stored entries or parsed tasks changes */
+const INDEX_VERSION = 1;
+
+/**
+ * Cached data for a single file.
+ */
+export interface TaskIndexEntry {
+  /** Modification time of the file when it was last read */
+  mtime: number;
+  /** Size of the file in bytes when it was last read */
+  size: number;
+  /** Hash of the file content when it was last read */
+  hash: string;
+  /** Tasks parsed from the content */
+  tasks: ParsedTask[];
+  /** Signature of the frontmatter updates last computed for the file, or null */
+  updates: string | null;
+}
+
+/**
+ * Shape of the index file on disk.
+ */
+interface StoredTaskIndex {
+  version: number;
+  /** Signature of the settings the tasks were parsed with */
+  parseSignature: string;
+  entries: Record<string, TaskIndexEntry>;
+}
+
+/**
+ * Persistent per-file index of parsed tasks, so unchanged files don't
+ * need to be read and parsed again, and unchanged results aren't written again.
+ * Stored as a JSON file in the plugin folder.
+ */
+export class TaskIndex {
+  private app: App;
+  private path: string;
+  private parseSignature = "";
+  private entries = new Map<string, TaskIndexEntry>();
+  private dirty = false;
+
+  constructor(app: App, path: string) {
+    this.app = app;
+    this.path = path;
+  }
+
+  /**
+   * Loads the index from disk. A missing, unreadable or outdated index
+   * starts empty.
+   */
+  async load(): Promise<void> {
+    this.entries.clear();
+    try {
+      if (!(await this.app.vault.adapter.exists(this.path))) return;
+      const stored = JSON.parse(await this.app.vault.adapter.read(this.path)) as StoredTaskIndex;
+      if (stored.version !== INDEX_VERSION) return;
+
+      this.parseSignature = stored.parseSignature;
+      for (const path of Object.keys(stored.entries)) {
+        this.entries.set(path, stored.entries[path]);
+      }
+    } catch (error) {
+      console.error("Task Property Sync: Error loading task index:", error);
+    }
+  }
+
+  /**
+   * Writes the index to disk if it changed since the last save.
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) return;
+    this.dirty = false;
+
+    const stored: StoredTaskIndex = {
+      version: INDEX_VERSION,
+      parseSignature: this.parseSignature,
+      entries: {},
+    };
+    this.entries.forEach((entry, path) => {
+      stored.entries[path] = entry;
+    });
+
+    try {
+      await this.app.vault.adapter.write(this.path, JSON.stringify(stored));
+    } catch (error) {
+      console.error("Task Property Sync: Error saving task index:", error);
+    }
+  }
+
+  /**
+   * Drops all entries when the settings used for parsing have changed.
+   */
+  setParseSignature(signature: string): void {
+    if (signature === this.parseSignature) return;
+    this.parseSignature = signature;
+    this.clear();
+  }
+
+  /**
+   * Drops all entries.
+   */
+  clear(): void {
+    this.entries.clear();
+    this.dirty = true;
+  }
+
+  /**
+   * Returns the entry of a file if the file is unchanged since it was indexed.
+   */
+  getFresh(file: TFile): TaskIndexEntry | null {
+    const entry = this.entries.get(file.path);
+    if (!entry) return null;
+    if (entry.mtime !== file.stat.mtime || entry.size !== file.stat.size) return null;
+    return entry;
+  }
+
+  /**
+   * Returns the entry of a file, whether or not the file changed since.
+   */
+  get(path: string): TaskIndexEntry | null {
+    return this.entries.get(path) ?? null;
+  }
+
+  /**
+   * Stores the entry of a file.
+   */
+  set(path: string, entry: TaskIndexEntry): void {
+    this.entries.set(path, entry);
+    this.dirty = true;
+  }
+
+  /**
+   * Records the current modification time and size of a file after the
+   * plugin itself wrote it, keeping its tasks.
+   */
+  touch(file: TFile): void {
+    const entry = this.entries.get(file.path);
+    if (!entry) return;
+    entry.mtime = file.stat.mtime;
+    entry.size = file.stat.size;
+    this.dirty = true;
+  }
+
+  /**
+   * Moves the entry of a renamed file.
+   */
+  rename(oldPath: string, newPath: string): void {
+    const entry = this.entries.get(oldPath);
+    this.entries.delete(oldPath);
+    if (entry) {
+      for (const task of entry.tasks) task.filePath = newPath;
+      this.entries.set(newPath, entry);
+    }
+    this.dirty = true;
+  }
+
+  /**
+   * Removes the entry of a deleted file.
+   */
+  delete(path: string): void {
+    if (this.entries.delete(path)) this.dirty = true;
+  }
+}
+
+/**
+ * Computes a short, non-cryptographic hash (FNV-1a) of a string.
+ */
+export function hashContent(content: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
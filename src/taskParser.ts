@@ -1,4 +1,10 @@
-import { ParsedTask } from "./types";
+import {
+  ParsedTask,
+  TypedValue,
+  TaskFormat,
+  StatusDefinition,
+  DEFAULT_STATUSES,
+} from "./types";
 
 /**
  * Regex patterns for Tasks plugin emoji-based metadata.
@@ -6,13 +12,39 @@ import { ParsedTask } from "./types";
  */
 const TASK_CHECKBOX_REGEX = /^(\s*[-*]\s*\[(.)\])\s*(.*)/;
 
+/**
+ * Any list item (task or plain bullet / numbered item); group 1 is the indentation.
+ * Like TASK_CHECKBOX_REGEX, it also accepts tasks without a space after the
+ * bullet ("-[ ] task").
+ */
+const LIST_ITEM_REGEX = /^(\s*)(?:(?:[-*+]|\d+[.)])\s|[-*](?=\[.\]))/;
+
+/**
+ * Markdown ATX heading; group 1 is the level, group 2 the heading text.
+ */
+const HEADING_REGEX = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+
+/**
+ * Start or end of a fenced code block.
+ */
+const CODE_FENCE_REGEX = /^\s*(```|~~~)/;
+
+/** Number of columns a tab counts as when measuring indentation */
+const TAB_WIDTH = 4;
+
 // Tasks plugin emoji format
 const DUE_DATE_REGEX = /📅\s*(\d{4}-\d{2}-\d{2})/u;
 const SCHEDULED_DATE_REGEX = /⏳\s*(\d{4}-\d{2}-\d{2})/u;
 const START_DATE_REGEX = /🛫\s*(\d{4}-\d{2}-\d{2})/u;
 const CREATED_DATE_REGEX = /➕\s*(\d{4}-\d{2}-\d{2})/u;
 const DONE_DATE_REGEX = /✅\s*(\d{4}-\d{2}-\d{2})/u;
-const RECURRENCE_REGEX = /🔁\s*([^📅⏳🛫➕✅⏫🔼🔽⏬🆔]*)/u;
+const RECURRENCE_REGEX = /🔁\s*([^📅⏳🛫➕✅🔺⏫🔼🔽⏬🆔⛔]*)/u;
+const ID_REGEX = /🆔\s*([a-zA-Z0-9_-]+)/u;
+const DEPENDS_ON_REGEX = /⛔\uFE0F?\s*([a-zA-Z0-9_-]+(?:\s*,\s*[a-zA-Z0-9_-]+)*)/u;
+
+// Obsidian tags and wikilinks
+const TAG_REGEX = /(^|\s)(#[^\s#.,;:!?()[\]{}"'`]+)/gu;
+const WIKILINK_REGEX = /!?\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/g;
 
 // Priority emojis (Tasks plugin)
 const PRIORITY_HIGHEST_REGEX = /🔺/u;
@@ -21,31 +53,221 @@ const PRIORITY_MEDIUM_REGEX = /🔼/u;
 const PRIORITY_LOW_REGEX = /🔽/u;
 const PRIORITY_LOWEST_REGEX = /⏬/u;
 
+/**
+ * Tasks plugin Dataview format field names.
+ * Fields are written as `[key:: value]` or `(key:: value)`.
+ */
+const DATAVIEW_FIELDS = {
+  dueDate: "due",
+  scheduledDate: "scheduled",
+  startDate: "start",
+  createdDate: "created",
+  doneDate: "completion",
+  recurrence: "repeat",
+  priority: "priority",
+  id: "id",
+  dependsOn: "dependsOn",
+};
+
+const DATAVIEW_FIELD_NAMES = [
+  DATAVIEW_FIELDS.dueDate,
+  DATAVIEW_FIELDS.scheduledDate,
+  DATAVIEW_FIELDS.startDate,
+  DATAVIEW_FIELDS.createdDate,
+  DATAVIEW_FIELDS.doneDate,
+  DATAVIEW_FIELDS.recurrence,
+  DATAVIEW_FIELDS.priority,
+  DATAVIEW_FIELDS.id,
+  DATAVIEW_FIELDS.dependsOn,
+];
+
+const DATAVIEW_PRIORITIES = ["highest", "high", "medium", "low", "lowest"];
+
+/**
+ * Detects whether a line uses at least one known Dataview inline field.
+ */
+const DATAVIEW_DETECT_REGEX =
+  /[[(]\s*(?:due|scheduled|start|created|completion|repeat|priority|id|dependsOn)\s*::/u;
+
+/**
+ * Metadata fields extracted from the content of a task line.
+ */
+interface TaskFields {
+  description: string;
+  dueDate: string | null;
+  scheduledDate: string | null;
+  startDate: string | null;
+  createdDate: string | null;
+  doneDate: string | null;
+  recurrence: string | null;
+  priority: string | null;
+  id: string | null;
+  dependsOn: string[];
+}
+
+/**
+ * Options controlling how task lines are interpreted.
+ */
+export interface TaskParseOptions {
+  /** Metadata format (default: auto-detect per line) */
+  format?: TaskFormat;
+  /** Status registry (default: Tasks plugin core statuses) */
+  statuses?: StatusDefinition[];
+  /** Path of the file being parsed, stored on each task */
+  path?: string;
+}
+
 /**
  * Parses all tasks from a markdown file content.
+ * Lines whose status is of type NON_TASK are skipped.
+ *
+ * Sub-tasks are linked to their parent task through indentation: a task's
+ * parent is the nearest less-indented task above it in the same list.
+ * Plain list items in between keep the chain intact; an unindented
+ * non-list line (paragraph, heading) ends the list.
+ *
+ * Each task also records the path of headings it is nested under.
+ * Headings inside fenced code blocks are ignored.
  */
-export function parseTasks(content: string): ParsedTask[] {
+export function parseTasks(
+  content: string,
+  options: TaskParseOptions = {}
+): ParsedTask[] {
   const lines = content.split("\n");
   const tasks: ParsedTask[] = [];
 
+  // Open list items above the current line; `task` is null for plain items
+  const ancestors: Array<{ indent: number; task: ParsedTask | null }> = [];
+
+  // Enclosing headings of the current line, outermost first
+  const headings: Array<{ level: number; text: string }> = [];
+  let inCodeBlock = false;
+
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
-    const task = parseTaskLine(line, i);
+
+    if (CODE_FENCE_REGEX.test(line)) inCodeBlock = !inCodeBlock;
+
+    const headingMatch = inCodeBlock ? null : line.match(HEADING_REGEX);
+    if (headingMatch) {
+      const level = headingMatch[1].length;
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop();
+      }
+      headings.push({ level, text: headingMatch[2] });
+    }
+
+    const listMatch = line.match(LIST_ITEM_REGEX);
+    if (!listMatch) {
+      if (line.trim() !== "" && !/^\s/.test(line)) ancestors.length = 0;
+      continue;
+    }
+
+    const indent = measureIndent(listMatch[1]);
+    while (ancestors.length > 0 && ancestors[ancestors.length - 1].indent >= indent) {
+      ancestors.pop();
+    }
+
+    let task = parseTaskLine(line, i, options);
+    if (task && task.statusType === "NON_TASK") task = null;
+
     if (task) {
+      task.headingPath = headings.map((h) => h.text);
+      const parent = findParentTask(ancestors);
+      if (parent) {
+        task.parentLine = parent.lineNumber;
+        task.depth = parent.depth + 1;
+        parent.childLines.push(task.lineNumber);
+      }
       tasks.push(task);
     }
+
+    ancestors.push({ indent, task });
   }
 
+  markBlockedTasks(tasks);
   return tasks;
 }
 
+/**
+ * Returns the nearest task among the open list items, if any.
+ */
+function findParentTask(
+  ancestors: Array<{ indent: number; task: ParsedTask | null }>
+): ParsedTask | null {
+  for (let i = ancestors.length - 1; i >= 0; i--) {
+    const task = ancestors[i].task;
+    if (task) return task;
+  }
+  return null;
+}
+
+/**
+ * Measures indentation in columns, counting tabs as TAB_WIDTH spaces.
+ */
+function measureIndent(whitespace: string): number {
+  let width = 0;
+  for (const char of whitespace) {
+    width += char === "\t" ? TAB_WIDTH : 1;
+  }
+  return width;
+}
+
+/**
+ * Marks open tasks whose dependencies (⛔) reference tasks in the same file
+ * that are not yet done. Dependencies on ids not found in the file are ignored.
+ */
+function markBlockedTasks(tasks: ParsedTask[]): void {
+  const tasksById = new Map<string, ParsedTask>();
+  for (const task of tasks) {
+    if (task.id) tasksById.set(task.id, task);
+  }
+
+  for (const task of tasks) {
+    if (!isOpenTask(task)) continue;
+    task.isBlocked = task.dependsOn.some((depId) => {
+      const dependency = tasksById.get(depId);
+      return dependency !== undefined && isOpenTask(dependency);
+    });
+  }
+}
+
+/**
+ * Returns a key identifying a task line across files.
+ */
+export function taskKey(filePath: string, lineNumber: number): string {
+  return `${filePath}:${lineNumber}`;
+}
+
+/**
+ * Whether a task is still open (status type TODO or IN_PROGRESS).
+ */
+export function isOpenTask(task: ParsedTask): boolean {
+  return task.statusType === "TODO" || task.statusType === "IN_PROGRESS";
+}
+
+/**
+ * Looks up a status symbol in the registry.
+ * Unknown symbols are treated as TODO, like in the Tasks plugin.
+ */
+function resolveStatus(
+  symbol: string,
+  statuses: StatusDefinition[]
+): StatusDefinition {
+  for (const status of statuses) {
+    if (status.symbol === symbol) return status;
+  }
+  return { symbol, name: "Unknown", type: "TODO" };
+}
+
 /**
  * Parses a single line to extract task information.
  * Returns null if the line is not a task.
  */
 export function parseTaskLine(
   line: string,
-  lineNumber: number
+  lineNumber: number,
+  options: TaskParseOptions = {}
 ): ParsedTask | null {
   const match = line.match(TASK_CHECKBOX_REGEX);
   if (!match) return null;
@@ -53,38 +275,90 @@ export function parseTaskLine(
   const statusChar = match[2];
   const taskContent = match[3].trim();
 
-  // Determine completion status
-  const isDone = statusChar === "x" || statusChar === "X";
+  // Determine status from the registry
+  const status = resolveStatus(statusChar, options.statuses ?? DEFAULT_STATUSES);
 
-  // Extract dates
-  const dueDate = extractMatch(taskContent, DUE_DATE_REGEX);
-  const scheduledDate = extractMatch(taskContent, SCHEDULED_DATE_REGEX);
-  const startDate = extractMatch(taskContent, START_DATE_REGEX);
-  const createdDate = extractMatch(taskContent, CREATED_DATE_REGEX);
-  const doneDate = extractMatch(taskContent, DONE_DATE_REGEX);
+  // Extract metadata in the configured (or detected) format
+  const fields =
+    resolveFormat(taskContent, options.format ?? "auto") === "dataview"
+      ? extractDataviewFields(taskContent)
+      : extractEmojiFields(taskContent);
 
-  // Extract recurrence
-  const recurrence = extractMatch(taskContent, RECURRENCE_REGEX);
+  return {
+    filePath: options.path ?? "",
+    line,
+    lineNumber,
+    isDone: status.type === "DONE",
+    ...fields,
+    isBlocked: false,
+    tags: extractTags(taskContent),
+    links: extractLinks(taskContent),
+    status: statusChar,
+    statusType: status.type,
+    statusName: status.name,
+    indent: measureIndent(line.match(/^\s*/)?.[0] ?? ""),
+    depth: 0,
+    parentLine: null,
+    childLines: [],
+    headingPath: [],
+  };
+}
 
-  // Extract priority
-  const priority = extractPriority(taskContent);
+/**
+ * Resolves "auto" to the concrete format used by a task line.
+ */
+function resolveFormat(
+  taskContent: string,
+  format: TaskFormat
+): "emoji" | "dataview" {
+  if (format !== "auto") return format;
+  return DATAVIEW_DETECT_REGEX.test(taskContent) ? "dataview" : "emoji";
+}
 
-  // Extract description (task text without metadata)
-  const description = extractDescription(taskContent);
+/**
+ * Extracts metadata written with the Tasks plugin emoji markers.
+ */
+function extractEmojiFields(taskContent: string): TaskFields {
+  const recurrence = extractMatch(taskContent, RECURRENCE_REGEX);
 
   return {
-    line,
-    lineNumber,
-    isDone,
-    description,
-    dueDate,
-    scheduledDate,
-    startDate,
-    createdDate,
-    doneDate,
+    description: extractDescription(taskContent),
+    dueDate: extractMatch(taskContent, DUE_DATE_REGEX),
+    scheduledDate: extractMatch(taskContent, SCHEDULED_DATE_REGEX),
+    startDate: extractMatch(taskContent, START_DATE_REGEX),
+    createdDate: extractMatch(taskContent, CREATED_DATE_REGEX),
+    doneDate: extractMatch(taskContent, DONE_DATE_REGEX),
     recurrence: recurrence ? recurrence.trim() : null,
-    priority,
-    status: statusChar,
+    priority: extractPriority(taskContent),
+    id: extractMatch(taskContent, ID_REGEX),
+    dependsOn: splitIds(extractMatch(taskContent, DEPENDS_ON_REGEX)),
+  };
+}
+
+/**
+ * Extracts metadata written with the Tasks plugin Dataview format,
+ * e.g. `[due:: 2025-03-15]` or `(priority:: high)`.
+ */
+function extractDataviewFields(taskContent: string): TaskFields {
+  const priority = extractDataviewField(taskContent, DATAVIEW_FIELDS.priority);
+  const normalizedPriority = priority ? priority.toLowerCase() : null;
+
+  return {
+    description: extractDataviewDescription(taskContent),
+    dueDate: extractDataviewDate(taskContent, DATAVIEW_FIELDS.dueDate),
+    scheduledDate: extractDataviewDate(taskContent, DATAVIEW_FIELDS.scheduledDate),
+    startDate: extractDataviewDate(taskContent, DATAVIEW_FIELDS.startDate),
+    createdDate: extractDataviewDate(taskContent, DATAVIEW_FIELDS.createdDate),
+    doneDate: extractDataviewDate(taskContent, DATAVIEW_FIELDS.doneDate),
+    recurrence: extractDataviewField(taskContent, DATAVIEW_FIELDS.recurrence),
+    priority:
+      normalizedPriority && DATAVIEW_PRIORITIES.includes(normalizedPriority)
+        ? normalizedPriority
+        : null,
+    id: extractDataviewField(taskContent, DATAVIEW_FIELDS.id),
+    dependsOn: splitIds(
+      extractDataviewField(taskContent, DATAVIEW_FIELDS.dependsOn)
+    ),
   };
 }
 
@@ -96,6 +370,70 @@ function extractMatch(text: string, regex: RegExp): string | null {
   return match ? match[1] : null;
 }
 
+/**
+ * Extracts all tags (e.g. `#work`, `#@home`, `#project/alpha`) from task content.
+ * Purely numeric tags are not tags in Obsidian and are skipped.
+ */
+function extractTags(text: string): string[] {
+  const tags: string[] = [];
+  let match: RegExpExecArray | null;
+  TAG_REGEX.lastIndex = 0;
+  while ((match = TAG_REGEX.exec(text)) !== null) {
+    const tag = match[2];
+    if (!/^#\d+$/.test(tag)) tags.push(tag);
+  }
+  return tags;
+}
+
+/**
+ * Extracts all wikilink targets (`[[Note]]`, `[[Note|alias]]`) from task content.
+ */
+function extractLinks(text: string): string[] {
+  const links: string[] = [];
+  let match: RegExpExecArray | null;
+  WIKILINK_REGEX.lastIndex = 0;
+  while ((match = WIKILINK_REGEX.exec(text)) !== null) {
+    links.push(match[1].trim());
+  }
+  return links;
+}
+
+/**
+ * Splits a comma-separated list of task ids.
+ */
+function splitIds(value: string | null): string[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0);
+}
+
+/**
+ * Builds a regex matching a single Dataview inline field.
+ * Capture group 1 holds the raw field value.
+ */
+function dataviewFieldRegex(key: string, flags = "u"): RegExp {
+  return new RegExp(`[[(]\\s*${key}\\s*::\\s*([^\\])]*?)\\s*[\\])]`, flags);
+}
+
+/**
+ * Extracts the trimmed value of a Dataview inline field.
+ */
+function extractDataviewField(text: string, key: string): string | null {
+  const value = extractMatch(text, dataviewFieldRegex(key));
+  return value ? value : null;
+}
+
+/**
+ * Extracts a YYYY-MM-DD date from a Dataview inline field.
+ */
+function extractDataviewDate(text: string, key: string): string | null {
+  const value = extractDataviewField(text, key);
+  if (!value) return null;
+  return extractMatch(value, /^(\d{4}-\d{2}-\d{2})/);
+}
+
 /**
  * Extracts priority from task content.
  */
@@ -124,12 +462,110 @@ function extractDescription(taskContent: string): string {
     .replace(PRIORITY_MEDIUM_REGEX, "")
     .replace(PRIORITY_LOW_REGEX, "")
     .replace(PRIORITY_LOWEST_REGEX, "")
+    .replace(ID_REGEX, "")
+    .replace(DEPENDS_ON_REGEX, "")
     .replace(/\s+/g, " ")
     .trim();
 }
 
+/**
+ * Extracts the description text, removing all known Dataview inline fields.
+ */
+function extractDataviewDescription(taskContent: string): string {
+  let description = taskContent;
+  for (const field of DATAVIEW_FIELD_NAMES) {
+    description = description.replace(dataviewFieldRegex(field, "gu"), "");
+  }
+  return description.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Task properties that can hold several values per task.
+ */
+const MULTI_VALUED_PROPERTIES = ["tags", "links", "depends_on"];
+
+/**
+ * Task properties holding a YYYY-MM-DD date.
+ */
+const DATE_PROPERTIES = [
+  "due_date",
+  "scheduled_date",
+  "start_date",
+  "created_date",
+  "done_date",
+];
+
+/**
+ * Whether a task property holds a date.
+ */
+export function isDateProperty(property: string): boolean {
+  return DATE_PROPERTIES.includes(property);
+}
+
+/**
+ * Whether a task property can hold several values per task.
+ */
+export function isMultiValuedProperty(property: string): boolean {
+  return MULTI_VALUED_PROPERTIES.includes(property);
+}
+
+/**
+ * Gets all values of a task property from a parsed task.
+ * Multi-valued properties return each value separately; single-valued
+ * properties return a one-element array, or an empty array if unset.
+ */
+export function getTaskPropertyValues(
+  task: ParsedTask,
+  property: string
+): string[] {
+  switch (property) {
+    case "tags":
+      return task.tags;
+    case "links":
+      return task.links;
+    case "depends_on":
+      return task.dependsOn;
+    default: {
+      const value = getTaskPropertyValue(task, property);
+      return value !== null && value !== "" ? [value] : [];
+    }
+  }
+}
+
+/**
+ * Gets the value of a task property as a typed value: dates as "date",
+ * multi-valued properties as "list" and everything else as "string".
+ * Returns null if the property is not set.
+ */
+export function getTypedTaskPropertyValue(
+  task: ParsedTask,
+  property: string
+): TypedValue | null {
+  if (isMultiValuedProperty(property)) {
+    const values = getTaskPropertyValues(task, property);
+    return values.length > 0 ? { type: "list", value: values.slice() } : null;
+  }
+
+  const value = getTaskPropertyValue(task, property);
+  if (value === null || value === "") return null;
+  return toTypedPropertyValue(property, value);
+}
+
+/**
+ * Wraps a single property value with the type matching the property.
+ */
+export function toTypedPropertyValue(
+  property: string,
+  value: string
+): TypedValue {
+  return isDateProperty(property)
+    ? { type: "date", value }
+    : { type: "string", value };
+}
+
 /**
  * Gets the value of a specific task property from a parsed task.
+ * Multi-valued properties are joined with ", ".
  */
 export function getTaskPropertyValue(
   task: ParsedTask,
@@ -154,7 +590,152 @@ export function getTaskPropertyValue(
       return task.status;
     case "description":
       return task.description;
+    case "id":
+      return task.id;
+    case "depends_on":
+    case "tags":
+    case "links": {
+      const values = getTaskPropertyValues(task, property);
+      return values.length > 0 ? values.join(", ") : null;
+    }
+    case "status_type":
+      return task.statusType;
+    case "status_name":
+      return task.statusName;
+    case "section":
+      return task.headingPath.length > 0
+        ? task.headingPath[task.headingPath.length - 1]
+        : null;
     default:
       return null;
   }
 }
+
+/**
+ * Emoji markers of the date properties, for writing them back to a task line.
+ */
+const EMOJI_DATE_MARKERS: Record<string, { marker: string; regex: RegExp }> = {
+  due_date: { marker: "📅", regex: DUE_DATE_REGEX },
+  scheduled_date: { marker: "⏳", regex: SCHEDULED_DATE_REGEX },
+  start_date: { marker: "🛫", regex: START_DATE_REGEX },
+  created_date: { marker: "➕", regex: CREATED_DATE_REGEX },
+  done_date: { marker: "✅", regex: DONE_DATE_REGEX },
+};
+
+/**
+ * Emoji markers of the priorities.
+ */
+const PRIORITY_MARKERS: Record<string, string> = {
+  highest: "🔺",
+  high: "⏫",
+  medium: "🔼",
+  low: "🔽",
+  lowest: "⏬",
+};
+
+/**
+ * Dataview field names of the properties that can be written back to a task line.
+ */
+const DATAVIEW_WRITABLE_FIELDS: Record<string, string> = {
+  due_date: DATAVIEW_FIELDS.dueDate,
+  scheduled_date: DATAVIEW_FIELDS.scheduledDate,
+  start_date: DATAVIEW_FIELDS.startDate,
+  created_date: DATAVIEW_FIELDS.createdDate,
+  done_date: DATAVIEW_FIELDS.doneDate,
+  priority: DATAVIEW_FIELDS.priority,
+};
+
+/** A block id (`^abc123`) at the end of a line, which must stay last */
+const BLOCK_ID_REGEX = /\s+\^([\w-]+)\s*$/;
+
+/**
+ * Whether a task property can be written back to a task line
+ * (dates and priority).
+ */
+export function isWritableProperty(property: string): boolean {
+  return DATAVIEW_WRITABLE_FIELDS[property] !== undefined;
+}
+
+/**
+ * Returns the block id at the end of a line (without the `^`), or null.
+ */
+export function getBlockId(line: string): string | null {
+  return extractMatch(line.trimEnd(), BLOCK_ID_REGEX);
+}
+
+/**
+ * Returns a task line with a property set to a new value, or removed when
+ * the value is null. The line keeps its format: Dataview lines get a
+ * Dataview field, other lines an emoji marker. Returns null if the line
+ * is not a task, the property can't be written or the value is invalid
+ * (dates must be YYYY-MM-DD, priorities highest … lowest).
+ */
+export function setTaskLineProperty(
+  line: string,
+  property: string,
+  value: string | null,
+  format: TaskFormat = "auto"
+): string | null {
+  const match = line.match(TASK_CHECKBOX_REGEX);
+  if (!match || !isWritableProperty(property)) return null;
+
+  if (value !== null) {
+    const valid = isDateProperty(property)
+      ? /^\d{4}-\d{2}-\d{2}$/.test(value)
+      : PRIORITY_MARKERS[value] !== undefined;
+    if (!valid) return null;
+  }
+
+  const content = match[3];
+  const prefix = line.slice(0, line.length - content.length);
+  const updated =
+    resolveFormat(content, format) === "dataview"
+      ? setDataviewField(content, DATAVIEW_WRITABLE_FIELDS[property], value)
+      : setEmojiField(content, property, value);
+  return prefix + updated;
+}
+
+/**
+ * Sets or removes the emoji marker of a property in task content.
+ */
+function setEmojiField(content: string, property: string, value: string | null): string {
+  if (property === "priority") {
+    const withoutPriority = content.replace(/\s*[🔺⏫🔼🔽⏬]/gu, "");
+    return value === null
+      ? withoutPriority
+      : appendMetadata(withoutPriority, PRIORITY_MARKERS[value]);
+  }
+
+  const { marker, regex } = EMOJI_DATE_MARKERS[property];
+  if (value === null) return content.replace(new RegExp(`\\s*${regex.source}`, "u"), "");
+  if (regex.test(content)) return content.replace(regex, `${marker} ${value}`);
+  return appendMetadata(content, `${marker} ${value}`);
+}
+
+/**
+ * Sets or removes a Dataview inline field in task content, keeping the
+ * bracket style of an existing field.
+ */
+function setDataviewField(content: string, key: string, value: string | null): string {
+  const regex = dataviewFieldRegex(key);
+  if (value === null) return content.replace(new RegExp(`\\s*${regex.source}`, "u"), "");
+  if (regex.test(content)) {
+    return content.replace(
+      regex,
+      (field) => `${field[0]}${key}:: ${value}${field[field.length - 1]}`
+    );
+  }
+  return appendMetadata(content, `[${key}:: ${value}]`);
+}
+
+/**
+ * Appends metadata to task content, before a trailing block id.
+ */
+function appendMetadata(content: string, metadata: string): string {
+  const blockId = content.match(BLOCK_ID_REGEX);
+  if (blockId) {
+    const body = content.slice(0, content.length - blockId[0].length);
+    return `${body.trimEnd()} ${metadata}${blockId[0]}`;
+  }
+  return `${content.trimEnd()} ${metadata}`;
+}
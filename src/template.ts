@@ -0,0 +1,145 @@
+import { ParsedTask, TypedValue } from "./types";
+import { executeOperation, OperationOptions } from "./operations";
+
+/** A template variable such as `{{count_done}}` */
+const VARIABLE_REGEX = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Characters a variable value keeps in a frontmatter key (see `toKeyPart`) */
+const KEY_PART_PATTERN = "[\\w\\u00c0-\\uffff-]+";
+
+/**
+ * Task aggregates available as template variables.
+ */
+const AGGREGATE_VARIABLES = [
+  "count_all",
+  "count_done",
+  "count_open",
+  "count_in_progress",
+  "count_cancelled",
+  "count_blocked",
+  "count_actionable",
+  "percentage_done",
+  "percentage_done_weighted",
+];
+
+/**
+ * What template variables are rendered from.
+ */
+export interface TemplateContext {
+  /** Tasks the aggregates are computed over */
+  tasks: ParsedTask[];
+  /** The mapping's result, for `{{value}}` */
+  value?: TypedValue | null;
+  /** Heading of the tasks, for `{{section}}` */
+  section?: string | null;
+  options?: OperationOptions;
+}
+
+/**
+ * Whether a text contains template variables.
+ */
+export function hasTemplateVariables(text: string): boolean {
+  return /\{\{\s*\w+\s*\}\}/.test(text);
+}
+
+/**
+ * Whether a text uses the `{{section}}` variable.
+ */
+export function usesSectionVariable(text: string): boolean {
+  return /\{\{\s*section\s*\}\}/.test(text);
+}
+
+/**
+ * Replaces the variables of a template with their values:
+ * - `{{value}}`: the mapping's result (lists joined with ", ")
+ * - `{{section}}`: the heading of the tasks
+ * - `{{count_done}}`, `{{percentage_done}}`, ...: aggregates of the tasks
+ * Unknown variables are left as they are.
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+  return template.replace(VARIABLE_REGEX, (match: string, name: string) => {
+    return getVariable(name, context) ?? match;
+  });
+}
+
+/**
+ * Renders a frontmatter key template. Variable values are lowercased and
+ * stripped of punctuation (spaces become "_"), so
+ * `tasks_{{section}}_open` gives `tasks_this_sprint_open`.
+ * Returns null if a variable renders empty (e.g. `{{section}}` for a task
+ * outside any heading), since the key would not be meaningful.
+ */
+export function renderKeyTemplate(template: string, context: TemplateContext): string | null {
+  let empty = false;
+  const key = template.replace(VARIABLE_REGEX, (match: string, name: string) => {
+    const value = getVariable(name, context);
+    if (value === undefined) return match;
+    const part = toKeyPart(value);
+    if (part === "") empty = true;
+    return part;
+  });
+  return empty ? null : key;
+}
+
+/**
+ * Whether a frontmatter key could have been rendered from a key template,
+ * e.g. `tasks_backlog_open` from `tasks_{{section}}_open`.
+ */
+export function matchesKeyTemplate(key: string, template: string): boolean {
+  const parts = template.split(VARIABLE_REGEX);
+  // split() puts the variable names at the odd indexes
+  const pattern = parts
+    .map((part, i) => (i % 2 === 1 ? KEY_PART_PATTERN : escapeRegExp(part)))
+    .join("");
+  return new RegExp(`^${pattern}$`).test(key);
+}
+
+/**
+ * Escapes the regex special characters of a text.
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Returns the value of a template variable, or undefined if it is unknown.
+ */
+function getVariable(name: string, context: TemplateContext): string | undefined {
+  if (name === "value") {
+    return context.value ? formatTemplateValue(context.value) : "";
+  }
+  if (name === "section") {
+    return context.section ?? "";
+  }
+  if (AGGREGATE_VARIABLES.includes(name)) {
+    const result = executeOperation(context.tasks, "status", name, context.options);
+    return result ? formatTemplateValue(result) : "0";
+  }
+  return undefined;
+}
+
+/**
+ * Formats a typed value as template text.
+ */
+function formatTemplateValue(value: TypedValue): string {
+  switch (value.type) {
+    case "list":
+      return value.value.join(", ");
+    case "number":
+    case "boolean":
+      return String(value.value);
+    default:
+      return value.value;
+  }
+}
+
+/**
+ * Turns a variable value into a part of a frontmatter key.
+ */
+function toKeyPart(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, "_")
+    .replace(/[^\w\u00c0-\uffff-]/g, "");
+}
@@ -10,7 +10,14 @@ export type TaskProperty =
   | "recurrence"
   | "priority"
   | "status"
-  | "description";
+  | "description"
+  | "id"
+  | "depends_on"
+  | "status_type"
+  | "status_name"
+  | "tags"
+  | "links"
+  | "section";
 
 /**
  * Available operations that can be applied to task properties.
@@ -21,12 +28,41 @@ export type OperationType =
   | "count"       // count of tasks that have this property set
   | "count_all"   // count of all tasks regardless of property
   | "count_done"  // count of completed tasks
-  | "count_open"  // count of open (not completed) tasks
+  | "count_open"  // count of open (todo / in progress) tasks
+  | "count_in_progress" // count of in-progress tasks
+  | "count_cancelled" // count of cancelled tasks
   | "percentage_done" // percentage of completed tasks
+  | "percentage_done_weighted" // percentage done, weighting each task by its sub-tasks
+  | "count_blocked" // count of open tasks waiting on an unfinished dependency
+  | "count_actionable" // count of open tasks that are not blocked
   | "list"        // comma-separated list of all values
+  | "list_unique" // comma-separated list of distinct values
   | "first"       // first occurrence
   | "last";       // last occurrence
 
+/**
+ * A frontmatter requirement for a file scope, e.g. { key: "type", value: "project" }.
+ * An empty value only requires the key to be set.
+ */
+export interface FrontmatterCondition {
+  key: string;
+  value: string;
+}
+
+/**
+ * Restricts a mapping to certain files. All non-empty criteria must match.
+ */
+export interface FileScope {
+  /** Folder paths or glob patterns; if any are set, the file must match one */
+  includePaths: string[];
+  /** Folder paths or glob patterns the file must not match */
+  excludePaths: string[];
+  /** Tags the note must have (all of them) */
+  requiredTags: string[];
+  /** Frontmatter properties the note must have (all of them) */
+  frontmatterConditions: FrontmatterCondition[];
+}
+
 /**
  * A single direct mapping: task property -> frontmatter property.
  * When a task property changes, the value is written to the frontmatter property.
@@ -35,8 +71,141 @@ export interface DirectMapping {
   id: string;
   taskProperty: TaskProperty;
   frontmatterKey: string;
-  overwriteExisting: boolean;
+  /** When an existing frontmatter value may be replaced */
+  overwriteMode: OverwriteMode;
   enabled: boolean;
+  /** Which files the mapping applies to */
+  fileScope: FileScope;
+  /** What to write when no task has a value */
+  emptyValuePolicy: EmptyValuePolicy;
+  /** Value written with the "default" policy */
+  emptyValueDefault: string;
+  /** How date results are written */
+  dateOutput: DateOutputOptions;
+  /**
+   * Whether edits to the frontmatter property are written back to the task
+   * (dates and priority only)
+   */
+  bidirectional: boolean;
+  /** Which task the value is read from */
+  taskSelection: TaskSelection;
+  /** Text template for the value, e.g. "Due {{value}}"; empty to write the value itself */
+  valueTemplate: string;
+}
+
+/**
+ * When a mapping may replace a property that already has a value.
+ * - always: always overwrite
+ * - never: only fill empty or missing properties
+ * - owned: only overwrite values the plugin wrote itself, so hand-edited
+ *   values are left alone
+ */
+export type OverwriteMode = "always" | "never" | "owned";
+
+/**
+ * What a mapping writes when it finds no value (e.g. the last due-dated
+ * task was deleted, or the file has no tasks left).
+ * - keep: leave the property as it is
+ * - delete: remove the property
+ * - empty: set the property to an empty value
+ * - default: write a fixed value
+ */
+export type EmptyValuePolicy = "keep" | "delete" | "empty" | "default";
+
+/**
+ * A typed value computed by a mapping. The type decides how the value is
+ * written to frontmatter: numbers and booleans as YAML scalars, dates as
+ * YYYY-MM-DD strings and lists as YAML arrays.
+ */
+export type TypedValue =
+  | { type: "string"; value: string }
+  | { type: "number"; value: number }
+  | { type: "boolean"; value: boolean }
+  | { type: "date"; value: string }
+  | { type: "list"; value: string[] };
+
+/**
+ * A single pending frontmatter write.
+ */
+export interface FrontmatterUpdate {
+  key: string;
+  value: TypedValue | null;
+  overwriteMode: OverwriteMode;
+  /** What to do with the property when value is null (default: keep) */
+  whenEmpty?: "keep" | "delete" | "empty";
+  /** Only apply if the property is set or was written by the plugin, never add it */
+  onlyIfPresent?: boolean;
+}
+
+/**
+ * A value as stored in frontmatter (null is an empty property).
+ */
+export type FrontmatterValue = string | number | boolean | string[] | null;
+
+/**
+ * A frontmatter change that processing a file would make.
+ */
+export interface FrontmatterChange {
+  key: string;
+  /** Current value, or undefined if the property is not set */
+  oldValue: unknown;
+  /** New value, or undefined if the property is removed */
+  newValue: FrontmatterValue | undefined;
+  /** Whether the plugin had written the old value itself (used by undo) */
+  oldOwned?: boolean;
+}
+
+/**
+ * The frontmatter changes processing a file would make (dry run).
+ */
+export interface FilePreview {
+  path: string;
+  changes: FrontmatterChange[];
+}
+
+/**
+ * The frontmatter changes the plugin made to one file during a run.
+ */
+export interface FileChangeRecord {
+  path: string;
+  changes: FrontmatterChange[];
+}
+
+/**
+ * A recorded run of the plugin (bulk processing, applied preview or
+ * automatic updates), kept so its changes can be rolled back.
+ */
+export interface ChangeRun {
+  id: string;
+  /** What triggered the run, e.g. "Process all files" */
+  label: string;
+  /** When the run started (ms since epoch) */
+  timestamp: number;
+  files: FileChangeRecord[];
+}
+
+/**
+ * How list results (list / list_unique) are written to frontmatter.
+ * - yaml: a real YAML array (a list property in Obsidian)
+ * - text: a single string joined by a separator
+ */
+export type ListOutputFormat = "yaml" | "text";
+
+/**
+ * Sort order for list results.
+ */
+export type ListSortOrder = "none" | "asc" | "desc";
+
+/**
+ * Output options for list results of an operation mapping.
+ */
+export interface ListOutputOptions {
+  format: ListOutputFormat;
+  /** Separator used when format is "text" */
+  separator: string;
+  /** Remove duplicate values */
+  deduplicate: boolean;
+  sort: ListSortOrder;
 }
 
 /**
@@ -47,12 +216,18 @@ export type ConditionOperator =
   | "not_equals"       // not equal
   | "contains"         // string contains
   | "not_contains"     // string does not contain
+  | "contains_ignore_case"     // string contains, ignoring case
+  | "not_contains_ignore_case" // string does not contain, ignoring case
   | "is_empty"         // value is null/empty
   | "is_not_empty"     // value is set
   | "greater_than"     // for dates: after, for numbers: larger
   | "less_than"        // for dates: before, for numbers: smaller
   | "greater_or_equal" // >=
-  | "less_or_equal";   // <=
+  | "less_or_equal"    // <=
+  | "has_tag"          // multi-valued: includes the value (tags match nested tags)
+  | "not_has_tag"      // multi-valued: does not include the value
+  | "has_any_tag"      // multi-valued: includes any of the comma-separated values
+  | "has_all_tags";    // multi-valued: includes all of the comma-separated values
 
 /**
  * A single condition that filters tasks.
@@ -72,6 +247,105 @@ export interface Condition {
  */
 export type ConditionLogic = "AND" | "OR";
 
+/**
+ * A group of conditions and nested groups, combined with the group's logic
+ * and optionally negated. Groups can be nested to any depth, e.g.
+ * "(priority is high OR priority is highest) AND status is not done".
+ * An empty group matches every task.
+ */
+export interface ConditionGroup {
+  id: string;
+  /** How the group's children are combined */
+  logic: ConditionLogic;
+  /** Invert the result of the group (NOT) */
+  negate: boolean;
+  conditions: Condition[];
+  groups: ConditionGroup[];
+}
+
+/**
+ * Options for how an operation mapping treats sub-tasks.
+ */
+export interface HierarchyOptions {
+  /** Only consider top-level tasks (ignore sub-tasks) */
+  topLevelOnly: boolean;
+  /** Sub-tasks without due / scheduled / start date inherit their parent's */
+  inheritParentDates: boolean;
+}
+
+export const DEFAULT_HIERARCHY_OPTIONS: HierarchyOptions = {
+  topLevelOnly: false,
+  inheritParentDates: false,
+};
+
+/**
+ * Restricts an operation mapping to the tasks under a heading.
+ */
+export interface SectionScope {
+  /** Heading text (without '#'); empty means the whole file */
+  heading: string;
+  /** Also include tasks under sub-headings of that heading */
+  includeSubsections: boolean;
+}
+
+export const DEFAULT_SECTION_SCOPE: SectionScope = {
+  heading: "",
+  includeSubsections: true,
+};
+
+/**
+ * Which files an operation mapping collects tasks from:
+ * - file: only the processed file
+ * - outgoing_links: the file plus the notes it links to
+ * - backlinks: the file plus the notes linking to it
+ * - folder: all notes in the file's folder (not including sub-folders)
+ */
+export type TaskSource = "file" | "outgoing_links" | "backlinks" | "folder";
+
+/**
+ * Which task a direct mapping reads its value from:
+ * - first_with_value: the first task that has the property set
+ * - first / last: the first or last task in the file
+ * - first_open: the first open (todo / in progress) task
+ * - tag: the first task with a tag
+ * - block_id: the task with a block id (`^ref`)
+ * - query: the first task matching a text query
+ * - highest_priority: the open task with the highest priority (the first on ties)
+ */
+export type TaskSelectionRule =
+  | "first_with_value"
+  | "first"
+  | "last"
+  | "first_open"
+  | "tag"
+  | "block_id"
+  | "query"
+  | "highest_priority";
+
+/**
+ * How a direct mapping selects its source task.
+ */
+export interface TaskSelection {
+  rule: TaskSelectionRule;
+  /** The tag, block id or query text of the "tag", "block_id" and "query" rules */
+  value: string;
+}
+
+/**
+ * Task selection of direct mappings: the first task with a value.
+ */
+export const DEFAULT_TASK_SELECTION: TaskSelection = {
+  rule: "first_with_value",
+  value: "",
+};
+
+/**
+ * How an operation mapping filters tasks:
+ * - builder: the condition group edited with dropdowns
+ * - query: a Tasks-plugin-style text query compiled into conditions
+ */
+export type FilterMode = "builder" | "query";
+
 /**
  * An operation-based mapping: applies an operation across all tasks
  * in the file and writes the result to the frontmatter property.
@@ -82,14 +356,180 @@ export interface OperationMapping {
   taskProperty: TaskProperty;
   operation: OperationType;
   frontmatterKey: string;
-  overwriteExisting: boolean;
+  /** When an existing frontmatter value may be replaced */
+  overwriteMode: OverwriteMode;
   enabled: boolean;
-  /** Conditions to filter tasks before applying the operation */
-  conditions: Condition[];
-  /** How to combine multiple conditions: AND (all must match) or OR (any must match) */
-  conditionLogic: ConditionLogic;
+  /** Root condition group that filters tasks before applying the operation */
+  conditionGroup: ConditionGroup;
+  /** Whether tasks are filtered by the condition group or the text query */
+  filterMode: FilterMode;
+  /** Tasks-plugin-style query, one filter per line (used in query mode) */
+  query: string;
+  /** How sub-tasks are treated */
+  hierarchy: HierarchyOptions;
+  /** Only consider tasks under a given heading */
+  sectionScope: SectionScope;
+  /** Which files the mapping applies to */
+  fileScope: FileScope;
+  /** Which files tasks are collected from */
+  source: TaskSource;
+  /** How list results are written (missing on mappings created before this option existed) */
+  listOutput?: ListOutputOptions;
+  /** What to write when the operation has no result */
+  emptyValuePolicy: EmptyValuePolicy;
+  /** Value written with the "default" policy */
+  emptyValueDefault: string;
+  /** How date results are written */
+  dateOutput: DateOutputOptions;
+  /** Text template for the value, e.g. "{{count_done}}/{{count_all}}"; empty to write the result itself */
+  valueTemplate: string;
+  /** How percentage_done results are written */
+  progressOutput: ProgressOutputOptions;
 }
 
+/**
+ * A formula mapping: evaluates an expression over task aggregates
+ * (e.g. `min(due_date)`, `count_open`), `today` and frontmatter fields,
+ * and writes the result to the frontmatter property.
+ */
+export interface FormulaMapping {
+  id: string;
+  /** The expression, e.g. `days_until(min(due_date))` */
+  formula: string;
+  frontmatterKey: string;
+  /** When an existing frontmatter value may be replaced */
+  overwriteMode: OverwriteMode;
+  enabled: boolean;
+  /** Which files the mapping applies to */
+  fileScope: FileScope;
+  /** What to write when the formula gives no value (null) */
+  emptyValuePolicy: EmptyValuePolicy;
+  /** Value written with the "default" policy */
+  emptyValueDefault: string;
+  /** How date results are written */
+  dateOutput: DateOutputOptions;
+}
+
+/**
+ * List output used for new operation mappings.
+ */
+export const DEFAULT_LIST_OUTPUT: ListOutputOptions = {
+  format: "yaml",
+  separator: ", ",
+  deduplicate: false,
+  sort: "none",
+};
+
+/**
+ * List output for mappings without a listOutput setting: comma-joined text,
+ * matching how list results were written before YAML lists were supported.
+ */
+export const LEGACY_LIST_OUTPUT: ListOutputOptions = {
+  format: "text",
+  separator: ", ",
+  deduplicate: false,
+  sort: "none",
+};
+
+/**
+ * How date results are written to frontmatter.
+ * - date: YYYY-MM-DD (an Obsidian date property)
+ * - datetime: YYYY-MM-DDT00:00 (an Obsidian date & time property)
+ * - custom: text formatted with a pattern such as DD.MM.YYYY
+ * - relative: text relative to today, such as "in 3 days"
+ */
+export type DateOutputFormat = "date" | "datetime" | "custom" | "relative";
+
+/**
+ * Output transform for date results of a mapping.
+ */
+export interface DateOutputOptions {
+  format: DateOutputFormat;
+  /** Pattern for the "custom" format, e.g. "DD.MM.YYYY" or "GGGG-[W]WW" */
+  pattern: string;
+  /** Offset applied before formatting, e.g. "-2d" for a reminder; empty for none */
+  offset: string;
+}
+
+/**
+ * Date output that writes dates unchanged.
+ */
+export const DEFAULT_DATE_OUTPUT: DateOutputOptions = {
+  format: "date",
+  pattern: "YYYY-MM-DD",
+  offset: "",
+};
+
+/**
+ * How progress results (percentage_done / percentage_done_weighted) are
+ * written to frontmatter.
+ * - number: the rounded percentage (a number property)
+ * - bar: a text progress bar such as "▰▰▰▱▱ 60%"
+ * - fraction: done and total tasks, such as "3/5"
+ * - percent: the percentage with decimals, such as "62.5%"
+ * - label: a status label chosen by percentage range, such as "in progress"
+ */
+export type ProgressOutputFormat = "number" | "bar" | "fraction" | "percent" | "label";
+
+/**
+ * A status label for a range of percentages (both ends included).
+ */
+export interface ProgressLabel {
+  min: number;
+  max: number;
+  label: string;
+}
+
+/**
+ * Output options for progress results of an operation mapping.
+ */
+export interface ProgressOutputOptions {
+  format: ProgressOutputFormat;
+  /** Number of segments of the "bar" format */
+  barLength: number;
+  /** Decimal places of the "percent" format */
+  decimals: number;
+  /** Labels of the "label" format; the first matching range is used */
+  labels: ProgressLabel[];
+}
+
+/**
+ * Progress output that writes the percentage as a number.
+ */
+export const DEFAULT_PROGRESS_OUTPUT: ProgressOutputOptions = {
+  format: "number",
+  barLength: 10,
+  decimals: 1,
+  labels: [
+    { min: 0, max: 0, label: "not started" },
+    { min: 1, max: 99, label: "in progress" },
+    { min: 100, max: 100, label: "complete" },
+  ],
+};
+
+/**
+ * Status types, mirroring the Tasks plugin custom statuses.
+ */
+export type StatusType = "TODO" | "IN_PROGRESS" | "DONE" | "CANCELLED" | "NON_TASK";
+
+/**
+ * A status in the status registry: maps a checkbox symbol to a name and type.
+ * Example: { symbol: "-", name: "Cancelled", type: "CANCELLED" }
+ */
+export interface StatusDefinition {
+  symbol: string;
+  name: string;
+  type: StatusType;
+}
+
+/**
+ * Syntax used by the Tasks plugin to store task metadata.
+ * - emoji: `📅 2025-03-15`, `⏫`, `🔁 every week`
+ * - dataview: `[due:: 2025-03-15]`, `[priority:: high]`, `[repeat:: every week]`
+ * - auto: detect the format per task line
+ */
+export type TaskFormat = "emoji" | "dataview" | "auto";
+
 /**
  * Plugin settings
  */
@@ -98,18 +538,40 @@ export interface TaskPropertyPluginSettings {
   directMappings: DirectMapping[];
   /** Operation-based mappings */
   operationMappings: OperationMapping[];
-  /** Folders to exclude from processing (paths relative to vault root) */
+  formulaMappings: FormulaMapping[];
+  /** Folder paths or glob patterns to exclude from processing (relative to vault root) */
   excludedFolders: string[];
+  /** Which Tasks plugin metadata format to parse */
+  taskFormat: TaskFormat;
+  /** Status registry; symbols not listed here are treated as TODO */
+  statuses: StatusDefinition[];
+  /** Whether cancelled tasks are left out of percentage calculations */
+  excludeCancelledFromPercentage: boolean;
   /** Whether to process on file modify events */
   processOnModify: boolean;
   /** Debounce delay in ms for file modify events */
   debounceDelay: number;
 }
 
+/**
+ * Default status registry, matching the Tasks plugin core statuses.
+ */
+export const DEFAULT_STATUSES: StatusDefinition[] = [
+  { symbol: " ", name: "Todo", type: "TODO" },
+  { symbol: "/", name: "In progress", type: "IN_PROGRESS" },
+  { symbol: "x", name: "Done", type: "DONE" },
+  { symbol: "X", name: "Done", type: "DONE" },
+  { symbol: "-", name: "Cancelled", type: "CANCELLED" },
+];
+
 export const DEFAULT_SETTINGS: TaskPropertyPluginSettings = {
   directMappings: [],
   operationMappings: [],
+  formulaMappings: [],
   excludedFolders: [],
+  taskFormat: "auto",
+  statuses: DEFAULT_STATUSES,
+  excludeCancelledFromPercentage: false,
   processOnModify: true,
   debounceDelay: 1000,
 };
@@ -118,11 +580,13 @@ export const DEFAULT_SETTINGS: TaskPropertyPluginSettings = {
  * Represents a parsed task from a markdown file.
  */
 export interface ParsedTask {
+  /** Path of the file the task was read from (empty if unknown) */
+  filePath: string;
   /** The full line text */
   line: string;
   /** Line number in the file */
   lineNumber: number;
-  /** Whether the task is completed */
+  /** Whether the task is completed (status type DONE) */
   isDone: boolean;
   /** The task description text (without metadata) */
   description: string;
@@ -142,6 +606,30 @@ export interface ParsedTask {
   priority: string | null;
   /** Status character: ' ', 'x', '/', '-', etc. */
   status: string;
+  /** Status type resolved from the status registry */
+  statusType: StatusType;
+  /** Status name resolved from the status registry */
+  statusName: string;
+  /** Task id (🆔 / [id:: ...]) */
+  id: string | null;
+  /** Ids of tasks this task depends on (⛔ / [dependsOn:: ...]) */
+  dependsOn: string[];
+  /** Whether the task is open and depends on an open task in the same file */
+  isBlocked: boolean;
+  /** Tags in the task text, including the leading '#' */
+  tags: string[];
+  /** Wikilink targets in the task text (without alias) */
+  links: string[];
+  /** Indentation of the task line in columns (tabs count as 4) */
+  indent: number;
+  /** Nesting depth among tasks: 0 for top-level tasks, 1 for their sub-tasks, ... */
+  depth: number;
+  /** Line number of the parent task, or null for top-level tasks */
+  parentLine: number | null;
+  /** Line numbers of the direct sub-tasks */
+  childLines: number[];
+  /** Texts of the enclosing headings, outermost first */
+  headingPath: string[];
 }
 
 /**
@@ -157,6 +645,57 @@ export const TASK_PROPERTY_LABELS: Record<TaskProperty, string> = {
   priority: "Priority",
   status: "Status",
   description: "Description",
+  id: "Task ID",
+  depends_on: "Blocked by (depends on)",
+  status_type: "Status type",
+  status_name: "Status name",
+  tags: "Tags",
+  links: "Links",
+  section: "Section (heading)",
+};
+
+/**
+ * Human-readable labels for task formats.
+ */
+export const TASK_FORMAT_LABELS: Record<TaskFormat, string> = {
+  auto: "Auto-detect per task",
+  emoji: "Emoji (📅 2025-03-15)",
+  dataview: "Dataview ([due:: 2025-03-15])",
+};
+
+/**
+ * Human-readable labels for status types.
+ */
+export const STATUS_TYPE_LABELS: Record<StatusType, string> = {
+  TODO: "Todo",
+  IN_PROGRESS: "In progress",
+  DONE: "Done",
+  CANCELLED: "Cancelled",
+  NON_TASK: "Non-task",
+};
+
+/**
+ * Human-readable labels for task sources.
+ */
+export const TASK_SOURCE_LABELS: Record<TaskSource, string> = {
+  file: "This file only",
+  outgoing_links: "This file and linked notes",
+  backlinks: "This file and notes linking here",
+  folder: "All notes in the same folder",
+};
+
+/**
+ * Human-readable labels for task selection rules.
+ */
+export const TASK_SELECTION_LABELS: Record<TaskSelectionRule, string> = {
+  first_with_value: "First task with a value",
+  first: "First task",
+  last: "Last task",
+  first_open: "First open task",
+  tag: "First task with a tag",
+  block_id: "Task with a block ID",
+  query: "First task matching a query",
+  highest_priority: "Open task with the highest priority",
 };
 
 /**
@@ -168,13 +707,76 @@ export const OPERATION_LABELS: Record<OperationType, string> = {
   count: "Count (tasks with this property set)",
   count_all: "Count all tasks",
   count_done: "Count done tasks",
-  count_open: "Count open tasks",
+  count_open: "Count open tasks (todo and in progress)",
+  count_in_progress: "Count in-progress tasks",
+  count_cancelled: "Count cancelled tasks",
   percentage_done: "Percentage done (%)",
+  percentage_done_weighted: "Percentage done, weighted by sub-tasks (%)",
+  count_blocked: "Count blocked tasks",
+  count_actionable: "Count actionable tasks (open and not blocked)",
   list: "List (comma-separated values)",
+  list_unique: "List unique (distinct values)",
   first: "First occurrence",
   last: "Last occurrence",
 };
 
+/**
+ * Human-readable labels for list output formats.
+ */
+export const LIST_OUTPUT_FORMAT_LABELS: Record<ListOutputFormat, string> = {
+  yaml: "List property (YAML array)",
+  text: "Text (joined by separator)",
+};
+
+/**
+ * Human-readable labels for list sort orders.
+ */
+export const LIST_SORT_ORDER_LABELS: Record<ListSortOrder, string> = {
+  none: "Keep file order",
+  asc: "Ascending",
+  desc: "Descending",
+};
+
+/**
+ * Human-readable labels for date output formats.
+ */
+export const DATE_OUTPUT_FORMAT_LABELS: Record<DateOutputFormat, string> = {
+  date: "Date property (YYYY-MM-DD)",
+  datetime: "Date & time property",
+  custom: "Custom format (text)",
+  relative: "Relative to today (text)",
+};
+
+/**
+ * Human-readable labels for progress output formats.
+ */
+export const PROGRESS_OUTPUT_FORMAT_LABELS: Record<ProgressOutputFormat, string> = {
+  number: "Percentage (number)",
+  bar: "Progress bar (text)",
+  fraction: "Done / total (text)",
+  percent: "Percentage with decimals (text)",
+  label: "Status label (text)",
+};
+
+/**
+ * Human-readable labels for overwrite modes.
+ */
+export const OVERWRITE_MODE_LABELS: Record<OverwriteMode, string> = {
+  always: "Always",
+  never: "Never (only fill empty properties)",
+  owned: "Only if last written by this plugin",
+};
+
+/**
+ * Human-readable labels for "when no value" policies.
+ */
+export const EMPTY_VALUE_POLICY_LABELS: Record<EmptyValuePolicy, string> = {
+  keep: "Keep the current value",
+  delete: "Remove the property",
+  empty: "Set to empty",
+  default: "Set to a default value",
+};
+
 /**
  * Human-readable labels for condition operators.
  */
@@ -183,10 +785,16 @@ export const CONDITION_OPERATOR_LABELS: Record<ConditionOperator, string> = {
   not_equals: "Not equals",
   contains: "Contains",
   not_contains: "Not contains",
+  contains_ignore_case: "Contains (ignoring case)",
+  not_contains_ignore_case: "Not contains (ignoring case)",
   is_empty: "Is empty",
   is_not_empty: "Is not empty",
   greater_than: "Greater than (date: after)",
   less_than: "Less than (date: before)",
   greater_or_equal: "Greater or equal",
   less_or_equal: "Less or equal",
+  has_tag: "Has tag / link",
+  not_has_tag: "Does not have tag / link",
+  has_any_tag: "Has any of (comma-separated)",
+  has_all_tags: "Has all of (comma-separated)",
 };
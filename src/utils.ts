@@ -0,0 +1,51 @@
+import {
+  ConditionGroup,
+  ConditionLogic,
+  FileScope,
+  ProgressOutputOptions,
+  DEFAULT_PROGRESS_OUTPUT,
+} from "./types";
+
+/**
+ * Generates a unique ID for mappings, conditions and condition groups.
+ */
+export function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substring(2, 8);
+}
+
+/**
+ * Creates an empty condition group.
+ */
+export function createConditionGroup(
+  logic: ConditionLogic = "AND"
+): ConditionGroup {
+  return {
+    id: generateId(),
+    logic,
+    negate: false,
+    conditions: [],
+    groups: [],
+  };
+}
+
+/**
+ * Creates an empty file scope (matches every file).
+ */
+export function createFileScope(): FileScope {
+  return {
+    includePaths: [],
+    excludePaths: [],
+    requiredTags: [],
+    frontmatterConditions: [],
+  };
+}
+
+/**
+ * Creates progress output options with the default format and labels.
+ */
+export function createProgressOutput(): ProgressOutputOptions {
+  return {
+    ...DEFAULT_PROGRESS_OUTPUT,
+    labels: DEFAULT_PROGRESS_OUTPUT.labels.map((l) => ({ ...l })),
+  };
+}